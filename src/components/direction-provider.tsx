@@ -0,0 +1,34 @@
+/**
+ * DirectionProvider Component
+ *
+ * Sets the reading direction of every component rendered inside it.
+ * Components mirror their layout, icons and arrow key navigation in RTL.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <DirectionProvider dir="rtl">
+ *   <Calendar locale="fa-IR" calendar="persian" />
+ * </DirectionProvider>
+ * ```
+ */
+
+import type { ReactNode } from "react";
+
+import { DirectionContext, type TDirection } from "../core/direction";
+
+/**
+ * DirectionProvider component props interface
+ */
+export interface IDirectionProviderProps {
+  /** Reading direction of the components */
+  dir: TDirection;
+  /** Components receiving the direction */
+  children: ReactNode;
+}
+
+const DirectionProvider = ({ dir, children }: IDirectionProviderProps) => {
+  return <DirectionContext.Provider value={dir}>{children}</DirectionContext.Provider>;
+};
+
+export default DirectionProvider;
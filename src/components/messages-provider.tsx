@@ -0,0 +1,50 @@
+/**
+ * MessagesProvider Component
+ *
+ * Sets the validation messages of every Input rendered inside it, from a bundled
+ * locale, overrides of single messages, or both. Messages can use the `{label}`,
+ * `{min}` and `{max}` placeholders.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <MessagesProvider locale="de" messages={{ required: "{label} fehlt" }}>
+ *   <Input name="name" label="Name" required />
+ * </MessagesProvider>
+ * ```
+ */
+
+import { type ReactNode, useMemo } from "react";
+
+import { ValidationMessagesContext, useValidationMessages } from "../features/input/core/context";
+import { VALIDATION_LOCALES } from "../features/input/core/locales";
+import type { TValidationLocale, TValidationMessages } from "../features/input/core/types";
+
+/**
+ * MessagesProvider component props interface
+ */
+export interface IMessagesProviderProps {
+  /** Bundled locale of the messages, those of the enclosing provider when not set */
+  locale?: TValidationLocale;
+  /** Messages overriding those of the locale */
+  messages?: Partial<TValidationMessages>;
+  /** Components receiving the messages */
+  children: ReactNode;
+}
+
+const MessagesProvider = ({ locale, messages, children }: IMessagesProviderProps) => {
+  const inheritedMessages = useValidationMessages();
+
+  const value = useMemo(
+    () => ({ ...(locale ? VALIDATION_LOCALES[locale] : inheritedMessages), ...messages }),
+    [inheritedMessages, locale, messages]
+  );
+
+  return (
+    <ValidationMessagesContext.Provider value={value}>
+      {children}
+    </ValidationMessagesContext.Provider>
+  );
+};
+
+export default MessagesProvider;
@@ -0,0 +1,38 @@
+/**
+ * Text Direction
+ *
+ * This module contains the reading direction shared by all components.
+ * Components render the direction on their root elements, so logical
+ * Tailwind properties (`ps-*`, `end-*`, `rounded-s-*`) mirror in RTL,
+ * including content rendered in portals.
+ */
+
+import { createContext, useContext } from "react";
+
+/**
+ * Reading direction of the components
+ */
+export type TDirection = "ltr" | "rtl";
+
+/**
+ * Direction set by the nearest DirectionProvider, `undefined` to inherit it from the document
+ */
+export const DirectionContext = createContext<TDirection | undefined>(undefined);
+
+/**
+ * Returns the direction set by the nearest DirectionProvider.
+ *
+ * @returns The direction, or `undefined` when no provider sets one
+ */
+export const useDirection = () => useContext(DirectionContext);
+
+/**
+ * Checks whether an element is laid out right-to-left, following the
+ * nearest `dir` attribute of its ancestors.
+ *
+ * @param element - Element to check
+ * @returns Whether the element is in a right-to-left context
+ */
+export const isRtlElement = (element: Element) => {
+  return element.closest("[dir]")?.getAttribute("dir") === "rtl";
+};
@@ -0,0 +1,96 @@
+/**
+ * Popover Behavior
+ *
+ * This module contains the behavior shared by the popovers of the components:
+ * focus moves into the popover once it opens, an outside click or Escape closes
+ * it, and closing it with Escape moves focus back to its trigger.
+ */
+
+import type React from "react";
+import { useCallback, useEffect, useId, useRef, useState } from "react";
+
+/**
+ * Options of a popover
+ */
+export interface IUsePopoverOptions {
+  /** Selector of the trigger in the root element, focused when the popover closes */
+  triggerSelector: string;
+  /** Selector of the element in the popover focused when it opens, the popover itself by default */
+  initialFocusSelector?: string;
+  /** Callback when the popover opens or closes */
+  onOpenChange?: (open: boolean) => void;
+}
+
+/**
+ * Manages the open state, focus and dismissal of a popover.
+ * The root element must contain both the trigger and the popover content.
+ *
+ * @param options - Trigger, initial focus and open state callback of the popover
+ * @returns The open state, the refs and id of the elements and the handlers of the popover
+ *
+ * @example
+ * ```tsx
+ * const popover = usePopover({ triggerSelector: "button" });
+ *
+ * <div ref={popover.rootRef}>
+ *   <button onClick={() => popover.setOpen(!popover.isOpen)}>Open</button>
+ *   {popover.isOpen && (
+ *     <div ref={popover.contentRef} id={popover.contentId} onKeyDown={popover.handleContentKeyDown} />
+ *   )}
+ * </div>
+ * ```
+ */
+export const usePopover = ({
+  triggerSelector,
+  initialFocusSelector,
+  onOpenChange,
+}: IUsePopoverOptions) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const contentId = useId();
+
+  const setOpen = useCallback(
+    (open: boolean) => {
+      setIsOpen(open);
+      onOpenChange?.(open);
+    },
+    [onOpenChange]
+  );
+
+  // Close the popover and move focus back to the trigger
+  const close = useCallback(() => {
+    setOpen(false);
+    rootRef.current?.querySelector<HTMLElement>(triggerSelector)?.focus();
+  }, [setOpen, triggerSelector]);
+
+  // Close when clicking outside of the popover and its trigger
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handlePointerDown = (e: MouseEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+
+    document.addEventListener("mousedown", handlePointerDown);
+    return () => document.removeEventListener("mousedown", handlePointerDown);
+  }, [isOpen, setOpen]);
+
+  // Move focus into the popover once it opens
+  useEffect(() => {
+    if (!isOpen) return;
+    const initialFocus = initialFocusSelector
+      ? contentRef.current?.querySelector<HTMLElement>(initialFocusSelector)
+      : null;
+    (initialFocus ?? contentRef.current)?.focus();
+  }, [initialFocusSelector, isOpen]);
+
+  const handleContentKeyDown = (e: React.KeyboardEvent<HTMLElement>) => {
+    if (e.key === "Escape") {
+      e.preventDefault();
+      close();
+    }
+  };
+
+  return { isOpen, setOpen, close, rootRef, contentRef, contentId, handleContentKeyDown };
+};
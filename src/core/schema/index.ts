@@ -0,0 +1,104 @@
+/**
+ * Schema Validation
+ *
+ * This module contains the Standard Schema interface, implemented by validation
+ * libraries such as Zod, Valibot and ArkType, and the functions mapping the issues
+ * of a schema to the error messages of the fields.
+ * See https://standardschema.dev for the specification.
+ */
+
+/**
+ * Segment of the path of an issue
+ */
+export interface IStandardSchemaPathSegment {
+  /** Key of the segment */
+  readonly key: PropertyKey;
+}
+
+/**
+ * Issue reported by a schema
+ */
+export interface IStandardSchemaIssue {
+  /** Error message of the issue */
+  readonly message: string;
+  /** Path of the invalid value, empty for the validated value itself */
+  readonly path?: ReadonlyArray<PropertyKey | IStandardSchemaPathSegment> | undefined;
+}
+
+/**
+ * Result of a schema validation, with issues when the value is invalid
+ */
+export type TStandardSchemaResult<TOutput> =
+  | { readonly value: TOutput; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<IStandardSchemaIssue> };
+
+/**
+ * Schema following the Standard Schema interface, version 1
+ */
+export interface IStandardSchema<TInput = unknown, TOutput = TInput> {
+  /** Standard properties of the schema */
+  readonly "~standard": {
+    /** Version of the specification */
+    readonly version: 1;
+    /** Library of the schema */
+    readonly vendor: string;
+    /** Validates a value, synchronously or asynchronously */
+    readonly validate: (
+      value: unknown
+    ) => TStandardSchemaResult<TOutput> | Promise<TStandardSchemaResult<TOutput>>;
+    /** Types inferred by the schema */
+    readonly types?: { readonly input: TInput; readonly output: TOutput } | undefined;
+  };
+}
+
+/**
+ * Validates a value with a schema, returning the message of its first issue.
+ * Asynchronous schemas return a promise of the message.
+ *
+ * @param schema - Schema to validate with
+ * @param value - Value to validate
+ * @returns The error message, `undefined` when the value is valid
+ *
+ * @example
+ * ```ts
+ * getSchemaError(z.string().email("Invalid email"), "jane") // "Invalid email"
+ * ```
+ */
+export const getSchemaError = (
+  schema: IStandardSchema,
+  value: unknown
+): string | undefined | Promise<string | undefined> => {
+  const result = schema["~standard"].validate(value);
+  return result instanceof Promise
+    ? result.then(({ issues }) => issues?.[0]?.message)
+    : result.issues?.[0]?.message;
+};
+
+/**
+ * Validates the values of a form with a schema, keying the message of the first
+ * issue of every field by the first segment of its path.
+ * Issues of the values object itself have no field and are left out.
+ *
+ * @param schema - Object schema to validate with
+ * @param values - Values keyed by field name
+ * @returns The error messages keyed by field name
+ *
+ * @example
+ * ```ts
+ * await getSchemaErrors(z.object({ email: z.string().email("Invalid email") }), { email: "jane" })
+ * // { email: "Invalid email" }
+ * ```
+ */
+export const getSchemaErrors = async (schema: IStandardSchema, values: Record<string, unknown>) => {
+  const { issues = [] } = await schema["~standard"].validate(values);
+  const errors: Record<string, string> = {};
+
+  issues.forEach(({ message, path = [] }) => {
+    if (path.length === 0) return;
+    const segment = path[0];
+    const name = String(typeof segment === "object" ? segment.key : segment);
+    if (!(name in errors)) errors[name] = message;
+  });
+
+  return errors;
+};
@@ -75,7 +75,7 @@ const Button = ({
     >
       {/* Loading spinner with border animation */}
       {isLoading && (
-        <span className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
+        <span className="me-2 h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
       )}
       {children}
     </button>
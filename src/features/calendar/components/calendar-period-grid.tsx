@@ -0,0 +1,133 @@
+import React, { useRef, useState } from "react";
+
+import { isRtlElement } from "../../../core/direction";
+import { cn } from "../../../core/utils";
+import Button from "../../button/components";
+import type { ICalendarPeriodGridProps } from "../core/types";
+import { getDayKey } from "../core/utils";
+
+const COLUMNS = 3;
+
+/**
+ * Grid of months or years used by the month and year views of the Calendar.
+ * Follows the WAI-ARIA grid pattern with a roving tabindex and arrow key navigation.
+ */
+const CalendarPeriodGrid = ({
+  periods,
+  onSelect,
+  disabled,
+  classNames,
+  "aria-label": ariaLabel,
+}: ICalendarPeriodGridProps) => {
+  const [focusedIndex, setFocusedIndex] = useState<number | null>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+
+  // The only cell reachable with Tab, preferring the focused, selected and current periods
+  const isEnabled = (index: number) => !!periods[index] && !periods[index].disabled;
+  const activeIndex = [
+    focusedIndex ?? -1,
+    periods.findIndex((period) => period.selected),
+    periods.findIndex((period) => period.today),
+    periods.findIndex((period) => !period.disabled),
+  ].find(isEnabled);
+
+  // Move focus to the nearest enabled cell in a direction, staying within the grid
+  const focusPeriod = (index: number, step: number) => {
+    let target = index;
+    while (target >= 0 && target < periods.length && !isEnabled(target)) target += step;
+    if (!isEnabled(target)) return;
+
+    setFocusedIndex(target);
+    gridRef.current
+      ?.querySelector<HTMLElement>(`[data-date="${getDayKey(periods[target].start)}"]`)
+      ?.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>, index: number) => {
+    // Horizontal arrows follow the reading direction
+    const [left, right] = isRtlElement(e.currentTarget) ? [1, -1] : [-1, 1];
+    const rowStart = index - (index % COLUMNS);
+
+    switch (e.key) {
+      case "ArrowLeft":
+        focusPeriod(index + left, left);
+        break;
+      case "ArrowRight":
+        focusPeriod(index + right, right);
+        break;
+      case "ArrowUp":
+        focusPeriod(index - COLUMNS, -COLUMNS);
+        break;
+      case "ArrowDown":
+        focusPeriod(index + COLUMNS, COLUMNS);
+        break;
+      case "Home":
+        focusPeriod(rowStart, 1);
+        break;
+      case "End":
+        focusPeriod(Math.min(rowStart + COLUMNS, periods.length) - 1, -1);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  const rows = Array.from({ length: Math.ceil(periods.length / COLUMNS) }).map((_, i) =>
+    periods.slice(i * COLUMNS, (i + 1) * COLUMNS)
+  );
+
+  return (
+    <div
+      ref={gridRef}
+      role="grid"
+      aria-label={ariaLabel}
+      className={cn("flex flex-col gap-2", classNames?.view)}
+    >
+      {rows.map((row, rowIndex) => (
+        <div key={`row-${rowIndex}`} role="row" className="grid grid-cols-3 gap-2">
+          {row.map((period, columnIndex) => {
+            const index = rowIndex * COLUMNS + columnIndex;
+
+            return (
+              <div key={getDayKey(period.start)} role="gridcell" aria-selected={period.selected}>
+                <Button
+                  variant={period.selected ? "primary" : "outline"}
+                  size="sm"
+                  className={cn(
+                    "h-12 w-full border-0",
+                    "transition-all duration-300 cursor-pointer",
+                    {
+                      "bg-gradient-to-br from-blue-500 to-blue-600 text-white shadow-md":
+                        period.selected,
+                      "hover:bg-gradient-to-br hover:from-gray-50 hover:to-gray-100 hover:shadow-md":
+                        !period.selected && !period.disabled,
+                      "font-semibold text-blue-600": period.today && !period.selected,
+                      "text-gray-400": period.outside && !period.selected,
+                      "opacity-30": period.disabled,
+                    },
+                    classNames?.period
+                  )}
+                  disabled={period.disabled || disabled}
+                  tabIndex={index === activeIndex ? 0 : -1}
+                  data-date={getDayKey(period.start)}
+                  aria-label={period.ariaLabel}
+                  aria-current={period.today ? "date" : undefined}
+                  onClick={() => {
+                    setFocusedIndex(index);
+                    onSelect(period);
+                  }}
+                  onKeyDown={(e) => handleKeyDown(e, index)}
+                >
+                  {period.label}
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default CalendarPeriodGrid;
@@ -0,0 +1,91 @@
+import * as Select from "@radix-ui/react-select";
+
+import { useDirection } from "../../../core/direction";
+import { cn } from "../../../core/utils";
+import { CheckIcon, ChevronDownIcon } from "../core/icons";
+import type { ICalendarSelectProps } from "../core/types";
+
+/**
+ * Calendar caption dropdown built on top of Radix UI Select.
+ * Used by the Calendar header to jump to a month or a year.
+ */
+const CalendarSelect = ({
+  value,
+  options,
+  onValueChange,
+  className,
+  classNames,
+  disabled,
+  "aria-label": ariaLabel,
+}: ICalendarSelectProps) => {
+  const dir = useDirection();
+
+  return (
+    <Select.Root
+      dir={dir}
+      value={String(value)}
+      onValueChange={(newValue) => onValueChange(Number(newValue))}
+      disabled={disabled}
+    >
+      <Select.Trigger
+        aria-label={ariaLabel}
+        className={cn(
+          "inline-flex items-center justify-between gap-1 rounded-md px-2 py-1",
+          "font-semibold text-gray-800",
+          "transition-all duration-300 cursor-pointer",
+          "hover:bg-gradient-to-br hover:from-gray-50 hover:to-gray-100",
+          "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500",
+          className,
+          classNames?.selectTrigger
+        )}
+      >
+        <Select.Value />
+        <Select.Icon>
+          <ChevronDownIcon className="text-gray-500" />
+        </Select.Icon>
+      </Select.Trigger>
+      <Select.Portal>
+        <Select.Content
+          position="popper"
+          sideOffset={4}
+          className={cn(
+            "z-50 max-h-64 overflow-hidden rounded-md",
+            "border border-gray-200 bg-white shadow-xl",
+            classNames?.selectContent
+          )}
+        >
+          <Select.Viewport className="p-1">
+            {options.map((option) => (
+              <Select.Item
+                key={option.value}
+                value={String(option.value)}
+                disabled={option.disabled}
+                className={cn(
+                  "relative flex items-center rounded-sm py-1.5 ps-7 pe-3 text-sm",
+                  "cursor-pointer select-none outline-none",
+                  "data-[highlighted]:bg-blue-50 data-[highlighted]:text-blue-700",
+                  "data-[disabled]:pointer-events-none data-[disabled]:opacity-30",
+                  classNames?.selectItem
+                )}
+              >
+                <Select.ItemIndicator
+                  className={cn(
+                    "absolute start-2 inline-flex items-center",
+                    classNames?.selectItemIndicator
+                  )}
+                >
+                  <CheckIcon className="h-3.5 w-3.5" />
+                </Select.ItemIndicator>
+                <Select.ItemText className={classNames?.selectItemText}>
+                  {option.label}
+                </Select.ItemText>
+              </Select.Item>
+            ))}
+          </Select.Viewport>
+        </Select.Content>
+      </Select.Portal>
+    </Select.Root>
+  );
+};
+
+export default CalendarSelect;
@@ -0,0 +1,405 @@
+/**
+ * Calendar Component Stories
+ *
+ * This module contains Storybook stories for the Calendar component,
+ * showcasing various use cases, states, and configurations. Each story
+ * demonstrates a specific feature or combination of features to help
+ * developers understand the component's capabilities.
+ *
+ * Stories are organized by feature and include:
+ * - Basic usage and configuration
+ * - Date selection modes (single/range)
+ * - Date constraints and validation
+ * - Visual states and styling
+ * - Accessibility features
+ * - Localization examples
+ */
+
+import type { Meta, StoryObj } from "@storybook/react-vite";
+
+import DirectionProvider from "../../../components/direction-provider";
+import Calendar from "../components";
+import { CALENDAR_PRESETS } from "../core/constants";
+
+/**
+ * Story configuration for the Calendar component
+ * Defines component metadata, documentation, and available controls
+ */
+const meta = {
+  title: "Components/Calendar",
+  component: Calendar,
+  tags: ["autodocs"],
+  parameters: {
+    layout: "centered",
+    docs: {
+      description: {
+        component: `
+A highly customizable and accessible calendar component built on top of Radix UI.
+Supports date selection, range selection, disabled dates, and more.
+
+## Features
+- Date selection with customizable format
+- Month/year navigation with dropdown selectors
+- Disabled dates and date ranges
+- Custom styling through classNames prop
+- Full accessibility support (ARIA attributes, keyboard navigation)
+- Smooth animations and transitions
+- Localization support
+- Responsive design
+
+## Usage
+\`\`\`tsx
+import { Calendar } from "@mohammadbekran/fancy-ui";
+
+function MyComponent() {
+  const [date, setDate] = useState<Date>();
+  
+  return (
+    <Calendar
+      selected={date}
+      onSelect={setDate}
+      showOutsideDays
+      locale="en-US"
+      placeholder="Select a date"
+    />
+  );
+}
+\`\`\`
+
+## Accessibility
+- Fully keyboard navigable
+- ARIA attributes for screen readers
+- Focus management
+- Color contrast compliance
+        `,
+      },
+    },
+  },
+  argTypes: {
+    locale: {
+      control: "select",
+      options: ["en-US", "fr-FR", "de-DE", "es-ES", "pt-BR", "fa-IR"],
+      description: "Locale for date formatting",
+    },
+    disabled: {
+      control: "boolean",
+      description: "Whether the calendar is disabled",
+    },
+    showOutsideDays: {
+      control: "boolean",
+      description: "Whether to show days from adjacent months",
+    },
+    fixedWeeks: {
+      control: "boolean",
+      description: "Whether to show a fixed number of weeks",
+    },
+    weekStartsOn: {
+      control: "select",
+      options: [0, 1, 2, 3, 4, 5, 6],
+      description: "First day of the week (0 = Sunday), defaults to the locale convention",
+    },
+    numberOfMonths: {
+      control: { type: "number", min: 1, max: 3 },
+      description: "Number of months rendered side by side",
+    },
+    pagedNavigation: {
+      control: "boolean",
+      description: "Whether navigation pages by all displayed months",
+    },
+    captionLayout: {
+      control: "select",
+      options: ["buttons", "dropdown", "dropdown-buttons"],
+      description: "Layout of the caption navigation",
+    },
+    showWeekNumbers: {
+      control: "boolean",
+      description: "Whether to display week numbers",
+    },
+    calendar: {
+      control: "select",
+      options: ["gregory", "persian", "islamic-umalqura", "islamic-civil", "hebrew", "buddhist"],
+      description: "Calendar system of the grid, navigation and labels",
+    },
+    timeZone: {
+      control: "select",
+      options: [
+        undefined,
+        "America/Los_Angeles",
+        "Europe/Berlin",
+        "Asia/Tokyo",
+        "Pacific/Auckland",
+      ],
+      description: "IANA time zone defining today and the day of each date",
+    },
+    weekNumbering: {
+      control: "select",
+      options: ["iso", "locale"],
+      description: "Rules used to number the weeks",
+    },
+  },
+} satisfies Meta<typeof Calendar>;
+
+export default meta;
+
+/**
+ * Story type definition for Calendar component stories
+ */
+type TStory = StoryObj<typeof Calendar>;
+
+/**
+ * Default calendar configuration
+ * Shows basic date selection functionality
+ */
+export const Default: TStory = {
+  args: {},
+};
+
+/**
+ * Calendar with date range selection enabled
+ * Demonstrates range selection functionality
+ */
+export const WithDateRange: TStory = {
+  args: {
+    mode: "range",
+  },
+};
+
+/**
+ * Calendar with disabled dates
+ * Shows how to restrict date selection
+ */
+export const WithDisabledDates: TStory = {
+  args: {
+    disabledDays: [new Date(2024, 0, 1), new Date(2024, 0, 2)],
+  },
+};
+
+/**
+ * Calendar with min/max date constraints
+ * Demonstrates date range restrictions
+ */
+export const WithDateConstraints: TStory = {
+  args: {
+    minDate: new Date(2024, 0, 1),
+    maxDate: new Date(2024, 11, 31),
+  },
+};
+
+/**
+ * Calendar with fixed weeks
+ * Demonstrates fixed week display
+ */
+export const WithFixedWeeks: TStory = {
+  args: {
+    fixedWeeks: true,
+  },
+};
+
+/**
+ * Calendar with outside days hidden
+ * Shows calendar without adjacent month days
+ */
+export const WithoutOutsideDays: TStory = {
+  args: {
+    showOutsideDays: false,
+  },
+};
+
+/**
+ * Disabled calendar state
+ * Demonstrates disabled state styling
+ */
+export const Disabled: TStory = {
+  args: {
+    disabled: true,
+  },
+};
+
+/**
+ * Calendar with month and year dropdowns
+ * Demonstrates jumping to distant dates such as a birth date
+ */
+export const WithCaptionDropdowns: TStory = {
+  args: {
+    captionLayout: "dropdown-buttons",
+    minDate: new Date(1900, 0, 1),
+    maxDate: new Date(),
+  },
+};
+
+/**
+ * Calendar in a European locale
+ * Demonstrates Monday-first weeks and localized weekday names
+ */
+export const WithLocaleWeekStart: TStory = {
+  args: {
+    locale: "fr-FR",
+  },
+};
+
+/**
+ * Calendar with two months side by side
+ * Demonstrates range selection across months for booking flows
+ */
+export const WithMultipleMonths: TStory = {
+  args: {
+    mode: "range",
+    numberOfMonths: 2,
+    pagedNavigation: true,
+  },
+};
+
+/**
+ * Calendar with hotel-style range constraints
+ * Stays must be 2 to 14 nights and can't span fully booked days
+ */
+export const WithRangeConstraints: TStory = {
+  args: {
+    mode: "range",
+    numberOfMonths: 2,
+    minRangeLength: 3,
+    maxRangeLength: 15,
+    excludeDisabled: true,
+    disabledDays: [new Date(new Date().getFullYear(), new Date().getMonth(), 20)],
+  },
+};
+
+/**
+ * Calendar with matcher-based disabled days and custom modifiers
+ * Weekends and past days are disabled, booked days are struck through
+ */
+export const WithModifiers: TStory = {
+  args: {
+    disabledDays: [{ dayOfWeek: [0, 6] }, { before: new Date() }],
+    modifiers: {
+      booked: (date: Date) => date.getDate() % 5 === 0,
+    },
+    modifiersClassNames: {
+      booked: "line-through text-red-500",
+    },
+    modifiersLabels: {
+      booked: "Booked",
+    },
+  },
+};
+
+/**
+ * Calendar with custom day cells
+ * Demonstrates the Day slot rendering nightly prices under each date
+ */
+export const WithCustomDays: TStory = {
+  args: {
+    modifiers: {
+      soldOut: { dayOfWeek: [5, 6] },
+    },
+    modifiersLabels: {
+      soldOut: "Sold out",
+    },
+    components: {
+      Day: ({ date, modifiers }) => (
+        <span className="flex flex-col items-center leading-none">
+          {date.getDate()}
+          <small className="text-[10px] opacity-70">
+            {modifiers.soldOut ? "—" : `$${80 + (date.getDate() % 4) * 10}`}
+          </small>
+        </span>
+      ),
+    },
+  },
+};
+
+/**
+ * Calendar for timesheets organized by ISO week
+ * Clicking a week number selects the whole week
+ */
+export const WithWeekSelection: TStory = {
+  args: {
+    mode: "range",
+    locale: "de-DE",
+    showWeekNumbers: true,
+    onWeekNumberClick: () => {},
+  },
+};
+
+/**
+ * Calendar in a fixed time zone
+ * Today and the selected day follow Auckland, whatever the zone of the browser
+ */
+export const WithTimeZone: TStory = {
+  args: {
+    timeZone: "Pacific/Auckland",
+    selected: new Date(),
+  },
+};
+
+/**
+ * Calendar in the Solar Hijri system for Persian-speaking users
+ * Months, years and labels follow the Persian calendar
+ */
+export const WithPersianCalendar: TStory = {
+  args: {
+    calendar: "persian",
+    locale: "fa-IR",
+    captionLayout: "dropdown-buttons",
+  },
+};
+
+/**
+ * Calendar laid out right-to-left
+ * Navigation, range ends and arrow keys mirror inside a DirectionProvider
+ */
+export const RightToLeft: TStory = {
+  args: {
+    mode: "range",
+    calendar: "persian",
+    locale: "fa-IR",
+  },
+  decorators: [
+    (Story) => (
+      <DirectionProvider dir="rtl">
+        <Story />
+      </DirectionProvider>
+    ),
+  ],
+};
+
+/**
+ * Range calendar for reporting dashboards
+ * The footer jumps to today or selects common periods ending today
+ */
+export const WithPresets: TStory = {
+  args: {
+    mode: "range",
+    numberOfMonths: 2,
+    maxDate: new Date(),
+    showTodayButton: true,
+    presets: [
+      CALENDAR_PRESETS.last7Days,
+      CALENDAR_PRESETS.last30Days,
+      CALENDAR_PRESETS.thisMonth,
+      CALENDAR_PRESETS.lastMonth,
+      CALENDAR_PRESETS.lastQuarter,
+    ],
+  },
+};
+
+/**
+ * Month picker for credit card expiry dates
+ * Picking a month selects its first day, the title zooms out to the years
+ */
+export const MonthPicker: TStory = {
+  args: {
+    minView: "month",
+    minDate: new Date(),
+  },
+};
+
+/**
+ * Calendar starting in the year view
+ * Picking a year and then a month zooms back in to the days
+ */
+export const StartInYearView: TStory = {
+  args: {
+    defaultView: "year",
+  },
+};
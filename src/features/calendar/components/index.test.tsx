@@ -7,13 +7,35 @@
  * - Date selection functionality
  * - Navigation between months
  * - Date range constraints and validation
+ * - Month and year dropdown navigation
+ * - Keyboard navigation of the date grid
+ * - First day of the week and localized weekday names
+ * - Multi-month layout and navigation
+ * - Multiple date selection mode
+ * - Range constraints and hover preview
+ * - Date matchers and custom day modifiers
+ * - Custom component slots
+ * - ISO and locale week numbers and week selection
+ * - Time zones and plain date adapters
+ * - Non-Gregorian calendar systems
+ * - Right-to-left layout
+ * - Today marker, today button and range presets
+ * - Month and year views
+ * - Controlled and uncontrolled selection and month
+ * - Native, Temporal and Luxon date adapters
  */
 
+import { useState } from "react";
 import { describe, it, expect, beforeEach, vi } from "vitest";
-import { render, screen } from "@testing-library/react";
+import { render, screen, within } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 
+import DirectionProvider from "../../../components/direction-provider";
 import Calendar from "../components";
+import { createLuxonAdapter, createNativeAdapter, createTemporalAdapter } from "../core/adapters";
+import { CALENDAR_PRESETS } from "../core/constants";
+import type { ICalendarRangeProps } from "../core/types";
+import { formatPlainDate, parsePlainDate } from "../core/utils";
 
 // Mock pointer events and scrollIntoView
 Element.prototype.hasPointerCapture = vi.fn();
@@ -36,7 +58,7 @@ describe("Calendar", () => {
       render(<Calendar onSelect={mockOnSelect} onDayClick={mockOnDayClick} />);
 
       // Click on a date
-      const dateButton = screen.getByRole("button", { name: "15" });
+      const dateButton = screen.getByRole("button", { name: / 15, / });
       await user.click(dateButton);
 
       expect(mockOnSelect).toHaveBeenCalledTimes(1);
@@ -80,7 +102,7 @@ describe("Calendar", () => {
       render(<Calendar minDate={minDate} />);
 
       // Try to select date before minDate
-      const dateButton = screen.getByRole("button", { name: "14" });
+      const dateButton = screen.getByRole("button", { name: / 14, / });
       await user.click(dateButton);
 
       expect(mockOnSelect).not.toHaveBeenCalled();
@@ -92,10 +114,1178 @@ describe("Calendar", () => {
       render(<Calendar maxDate={maxDate} />);
 
       // Try to select date after maxDate
-      const dateButton = screen.getByRole("button", { name: "16" });
+      const dateButton = screen.getByRole("button", { name: / 16, / });
       await user.click(dateButton);
 
       expect(mockOnSelect).not.toHaveBeenCalled();
     });
   });
+
+  describe("Caption Dropdowns", () => {
+    it("jumps to the month picked from the month dropdown", async () => {
+      const user = userEvent.setup();
+      const initialDate = new Date(2024, 1, 15); // February 15, 2024
+      render(
+        <Calendar
+          selected={initialDate}
+          captionLayout="dropdown"
+          onMonthChange={mockOnMonthChange}
+        />
+      );
+
+      await user.click(screen.getByRole("combobox", { name: "Month" }));
+      await user.click(screen.getByRole("option", { name: "August" }));
+
+      expect(mockOnMonthChange).toHaveBeenCalledTimes(1);
+      expect(mockOnMonthChange.mock.calls[0][0].getMonth()).toBe(7); // August
+      expect(mockOnMonthChange.mock.calls[0][0].getFullYear()).toBe(2024);
+      expect(screen.queryByRole("button", { name: /previous/i })).not.toBeInTheDocument();
+    });
+
+    it("limits the year dropdown to minDate and maxDate", async () => {
+      const user = userEvent.setup();
+      render(
+        <Calendar
+          selected={new Date(1990, 5, 1)}
+          captionLayout="dropdown"
+          minDate={new Date(1985, 3, 10)}
+          maxDate={new Date(2000, 0, 1)}
+          onMonthChange={mockOnMonthChange}
+        />
+      );
+
+      await user.click(screen.getByRole("combobox", { name: "Year" }));
+      const options = screen.getAllByRole("option");
+      expect(options[0]).toHaveTextContent("1985");
+      expect(options[options.length - 1]).toHaveTextContent("2000");
+
+      // Picking 1985 keeps June, which is within the limits
+      await user.click(screen.getByRole("option", { name: "1985" }));
+      expect(mockOnMonthChange.mock.calls[0][0].getFullYear()).toBe(1985);
+      expect(mockOnMonthChange.mock.calls[0][0].getMonth()).toBe(5);
+    });
+
+    it("disables months outside of minDate and maxDate", async () => {
+      const user = userEvent.setup();
+      render(
+        <Calendar
+          selected={new Date(1985, 5, 1)}
+          captionLayout="dropdown-buttons"
+          minDate={new Date(1985, 3, 10)}
+        />
+      );
+
+      await user.click(screen.getByRole("combobox", { name: "Month" }));
+
+      expect(screen.getByRole("option", { name: "March" })).toHaveAttribute(
+        "aria-disabled",
+        "true"
+      );
+      expect(screen.getByRole("option", { name: "April" })).not.toHaveAttribute("aria-disabled");
+    });
+  });
+
+  describe("Keyboard Navigation", () => {
+    const initialDate = new Date(2025, 2, 3); // Monday, March 3, 2025
+
+    it("exposes grid semantics with a single tabbable day", () => {
+      render(<Calendar selected={initialDate} />);
+
+      const grid = screen.getByRole("grid", { name: "March 2025" });
+      expect(within(grid).getAllByRole("columnheader")).toHaveLength(7);
+
+      const day = screen.getByRole("button", { name: "Monday, March 3, 2025" });
+      expect(day).toHaveAttribute("tabindex", "0");
+      expect(day.closest('[role="gridcell"]')).toHaveAttribute("aria-selected", "true");
+      expect(screen.getByRole("button", { name: "Tuesday, March 4, 2025" })).toHaveAttribute(
+        "tabindex",
+        "-1"
+      );
+    });
+
+    it("moves focus by day and week with arrow keys", async () => {
+      const user = userEvent.setup();
+      render(<Calendar selected={initialDate} />);
+
+      screen.getByRole("button", { name: "Monday, March 3, 2025" }).focus();
+      await user.keyboard("{ArrowRight}");
+      expect(screen.getByRole("button", { name: "Tuesday, March 4, 2025" })).toHaveFocus();
+
+      await user.keyboard("{ArrowDown}");
+      expect(screen.getByRole("button", { name: "Tuesday, March 11, 2025" })).toHaveFocus();
+
+      await user.keyboard("{Home}");
+      expect(screen.getByRole("button", { name: "Sunday, March 9, 2025" })).toHaveFocus();
+
+      await user.keyboard("{End}");
+      expect(screen.getByRole("button", { name: "Saturday, March 15, 2025" })).toHaveFocus();
+    });
+
+    it("crosses into the adjacent month", async () => {
+      const user = userEvent.setup();
+      render(<Calendar selected={initialDate} onMonthChange={mockOnMonthChange} />);
+
+      screen.getByRole("button", { name: "Monday, March 3, 2025" }).focus();
+      await user.keyboard("{ArrowUp}");
+
+      expect(screen.getByRole("grid", { name: "February 2025" })).toBeInTheDocument();
+      expect(screen.getByRole("button", { name: "Monday, February 24, 2025" })).toHaveFocus();
+      expect(mockOnMonthChange).toHaveBeenCalledTimes(1);
+    });
+
+    it("changes the month with PageUp/PageDown and the year with Shift", async () => {
+      const user = userEvent.setup();
+      render(<Calendar selected={initialDate} />);
+
+      screen.getByRole("button", { name: "Monday, March 3, 2025" }).focus();
+      await user.keyboard("{PageDown}");
+      expect(screen.getByRole("button", { name: "Thursday, April 3, 2025" })).toHaveFocus();
+
+      await user.keyboard("{Shift>}{PageUp}{/Shift}");
+      expect(screen.getByRole("button", { name: "Wednesday, April 3, 2024" })).toHaveFocus();
+    });
+
+    it("skips disabled days and respects maxDate", async () => {
+      const user = userEvent.setup();
+      render(
+        <Calendar
+          selected={initialDate}
+          disabledDays={[new Date(2025, 2, 4)]}
+          maxDate={new Date(2025, 2, 6)}
+        />
+      );
+
+      screen.getByRole("button", { name: "Monday, March 3, 2025" }).focus();
+      await user.keyboard("{ArrowRight}");
+      expect(screen.getByRole("button", { name: "Wednesday, March 5, 2025" })).toHaveFocus();
+
+      await user.keyboard("{ArrowDown}");
+      expect(screen.getByRole("button", { name: "Thursday, March 6, 2025" })).toHaveFocus();
+    });
+
+    it("selects the focused day with Enter", async () => {
+      const user = userEvent.setup();
+      render(<Calendar selected={initialDate} onSelect={mockOnSelect} />);
+
+      screen.getByRole("button", { name: "Monday, March 3, 2025" }).focus();
+      await user.keyboard("{ArrowRight}{Enter}");
+
+      expect(mockOnSelect).toHaveBeenCalledWith(new Date(2025, 2, 4));
+    });
+  });
+
+  describe("Week Start", () => {
+    const initialDate = new Date(2025, 2, 3); // Monday, March 3, 2025
+
+    it("starts weeks on Sunday with English weekday names by default", () => {
+      render(<Calendar selected={initialDate} />);
+
+      const headers = screen.getAllByRole("columnheader");
+      expect(headers[0]).toHaveTextContent("Sun");
+      expect(headers[0]).toHaveAccessibleName("Sunday");
+    });
+
+    it("follows the locale convention and language", () => {
+      render(<Calendar selected={initialDate} locale="de-DE" />);
+
+      const headers = screen.getAllByRole("columnheader");
+      expect(headers[0]).toHaveAccessibleName("Montag");
+      expect(headers[6]).toHaveAccessibleName("Sonntag");
+
+      // March 1, 2025 is a Saturday, so it's the sixth cell of the first row
+      const firstRow = screen.getAllByRole("row")[1];
+      const cells = within(firstRow).getAllByRole("gridcell");
+      expect(within(cells[5]).getByRole("button")).toHaveAccessibleName("Samstag, 1. März 2025");
+    });
+
+    it("lets weekStartsOn override the locale", async () => {
+      const user = userEvent.setup();
+      render(<Calendar selected={initialDate} weekStartsOn={1} />);
+
+      expect(screen.getAllByRole("columnheader")[0]).toHaveAccessibleName("Monday");
+
+      screen.getByRole("button", { name: "Wednesday, March 5, 2025" }).focus();
+      await user.keyboard("{Home}");
+      expect(screen.getByRole("button", { name: "Monday, March 3, 2025" })).toHaveFocus();
+    });
+  });
+
+  describe("Multiple Months", () => {
+    const initialDate = new Date(2025, 2, 3); // Monday, March 3, 2025
+
+    it("renders consecutive month grids under one header", () => {
+      render(<Calendar selected={initialDate} numberOfMonths={3} />);
+
+      expect(screen.getAllByRole("grid").map((grid) => grid.getAttribute("aria-label"))).toEqual([
+        "March 2025",
+        "April 2025",
+        "May 2025",
+      ]);
+      expect(screen.getByText("March 2025 – May 2025")).toBeInTheDocument();
+      expect(screen.getAllByRole("button", { name: /next/i })).toHaveLength(1);
+    });
+
+    it("selects a range across grid boundaries", async () => {
+      const user = userEvent.setup();
+      render(
+        <Calendar
+          mode="range"
+          numberOfMonths={2}
+          defaultSelected={{ from: initialDate, to: initialDate }}
+          onSelect={mockOnSelect}
+        />
+      );
+
+      await user.click(screen.getByRole("button", { name: "Friday, March 28, 2025" }));
+      await user.click(screen.getByRole("button", { name: "Wednesday, April 2, 2025" }));
+
+      expect(mockOnSelect).toHaveBeenLastCalledWith({
+        from: new Date(2025, 2, 28),
+        to: new Date(2025, 3, 2),
+      });
+      for (const name of ["Monday, March 31, 2025", "Tuesday, April 1, 2025"]) {
+        const cell = screen.getByRole("button", { name }).closest('[role="gridcell"]');
+        expect(cell).toHaveAttribute("aria-selected", "true");
+      }
+    });
+
+    it("pages by one month or by the whole block", async () => {
+      const user = userEvent.setup();
+      const { rerender } = render(
+        <Calendar selected={initialDate} numberOfMonths={2} onMonthChange={mockOnMonthChange} />
+      );
+
+      await user.click(screen.getByRole("button", { name: /next/i }));
+      expect(mockOnMonthChange.mock.calls[0][0]).toEqual(new Date(2025, 3, 1));
+
+      rerender(
+        <Calendar
+          selected={initialDate}
+          numberOfMonths={2}
+          pagedNavigation
+          onMonthChange={mockOnMonthChange}
+        />
+      );
+      await user.click(screen.getByRole("button", { name: /next/i }));
+      expect(mockOnMonthChange.mock.calls[1][0]).toEqual(new Date(2025, 5, 1));
+    });
+
+    it("moves keyboard focus between grids without changing months", async () => {
+      const user = userEvent.setup();
+      render(
+        <Calendar selected={initialDate} numberOfMonths={2} onMonthChange={mockOnMonthChange} />
+      );
+
+      screen.getByRole("button", { name: "Monday, March 31, 2025" }).focus();
+      await user.keyboard("{ArrowRight}");
+      expect(screen.getByRole("button", { name: "Tuesday, April 1, 2025" })).toHaveFocus();
+      expect(mockOnMonthChange).not.toHaveBeenCalled();
+
+      await user.keyboard("{PageDown}");
+      expect(screen.getByRole("button", { name: "Thursday, May 1, 2025" })).toHaveFocus();
+      expect(mockOnMonthChange.mock.calls[0][0]).toEqual(new Date(2025, 3, 1));
+    });
+  });
+
+  describe("Multiple Selection", () => {
+    const initialDates = [new Date(2025, 2, 3), new Date(2025, 2, 10)];
+
+    it("toggles independent dates", async () => {
+      const user = userEvent.setup();
+      render(<Calendar mode="multiple" defaultSelected={initialDates} onSelect={mockOnSelect} />);
+
+      await user.click(screen.getByRole("button", { name: "Wednesday, March 5, 2025" }));
+      expect(mockOnSelect).toHaveBeenLastCalledWith([...initialDates, new Date(2025, 2, 5)]);
+
+      await user.click(screen.getByRole("button", { name: "Monday, March 3, 2025" }));
+      expect(mockOnSelect).toHaveBeenLastCalledWith([new Date(2025, 2, 10), new Date(2025, 2, 5)]);
+
+      const cell = screen
+        .getByRole("button", { name: "Monday, March 10, 2025" })
+        .closest('[role="gridcell"]');
+      expect(cell).toHaveAttribute("aria-selected", "true");
+    });
+
+    it("keeps the selection within min and max", async () => {
+      const user = userEvent.setup();
+      render(
+        <Calendar mode="multiple" selected={initialDates} onSelect={mockOnSelect} min={2} max={2} />
+      );
+
+      await user.click(screen.getByRole("button", { name: "Wednesday, March 5, 2025" }));
+      await user.click(screen.getByRole("button", { name: "Monday, March 3, 2025" }));
+
+      expect(mockOnSelect).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Range Constraints", () => {
+    const initialRange = { from: new Date(2025, 2, 3), to: new Date(2025, 2, 3) };
+    const dayButton = (name: string) => screen.getByRole("button", { name });
+
+    it("previews the tentative range while hovering", async () => {
+      const user = userEvent.setup();
+      render(<Calendar mode="range" selected={initialRange} />);
+
+      await user.click(dayButton("Monday, March 10, 2025"));
+      await user.hover(dayButton("Thursday, March 13, 2025"));
+
+      expect(dayButton("Tuesday, March 11, 2025")).toHaveAttribute("data-range-preview", "true");
+      expect(dayButton("Thursday, March 13, 2025")).toHaveAttribute("data-range-preview", "true");
+      expect(dayButton("Friday, March 14, 2025")).not.toHaveAttribute("data-range-preview");
+    });
+
+    it("blocks ranges shorter than minRangeLength or longer than maxRangeLength", async () => {
+      const user = userEvent.setup();
+      render(
+        <Calendar
+          mode="range"
+          selected={initialRange}
+          minRangeLength={3}
+          maxRangeLength={5}
+          onSelect={mockOnSelect}
+        />
+      );
+
+      await user.click(dayButton("Monday, March 10, 2025"));
+      expect(dayButton("Tuesday, March 11, 2025")).toHaveAttribute("aria-disabled", "true");
+      expect(dayButton("Saturday, March 15, 2025")).toHaveAttribute("aria-disabled", "true");
+
+      await user.click(dayButton("Tuesday, March 11, 2025"));
+      await user.click(dayButton("Saturday, March 15, 2025"));
+      expect(mockOnSelect).toHaveBeenCalledTimes(1);
+
+      await user.click(dayButton("Friday, March 14, 2025"));
+      expect(mockOnSelect).toHaveBeenLastCalledWith({
+        from: new Date(2025, 2, 10),
+        to: new Date(2025, 2, 14),
+      });
+    });
+
+    it("blocks ranges that cross disabled days with excludeDisabled", async () => {
+      const user = userEvent.setup();
+      render(
+        <Calendar
+          mode="range"
+          selected={initialRange}
+          disabledDays={[new Date(2025, 2, 12)]}
+          excludeDisabled
+          onSelect={mockOnSelect}
+        />
+      );
+
+      await user.click(dayButton("Monday, March 10, 2025"));
+      await user.click(dayButton("Friday, March 14, 2025"));
+      expect(mockOnSelect).toHaveBeenCalledTimes(1);
+
+      await user.click(dayButton("Tuesday, March 11, 2025"));
+      expect(mockOnSelect).toHaveBeenLastCalledWith({
+        from: new Date(2025, 2, 10),
+        to: new Date(2025, 2, 11),
+      });
+    });
+  });
+
+  describe("Matchers and Modifiers", () => {
+    const initialDate = new Date(2025, 2, 10);
+    const dayButton = (name: string) => screen.getByRole("button", { name });
+
+    it("disables days regardless of their time of day", () => {
+      render(<Calendar selected={initialDate} disabledDays={[new Date(2025, 2, 12, 14, 30)]} />);
+
+      expect(dayButton("Wednesday, March 12, 2025")).toBeDisabled();
+      expect(dayButton("Thursday, March 13, 2025")).toBeEnabled();
+    });
+
+    it("disables days matching ranges, days of week, before/after rules and functions", () => {
+      render(
+        <Calendar
+          selected={initialDate}
+          disabledDays={[
+            { from: new Date(2025, 2, 18), to: new Date(2025, 2, 19) },
+            { dayOfWeek: [0, 6] },
+            { before: new Date(2025, 2, 3) },
+            { after: new Date(2025, 2, 28) },
+            (date) => date.getDate() === 5,
+          ]}
+        />
+      );
+
+      ["Tuesday, March 18, 2025", "Wednesday, March 19, 2025"].forEach((name) =>
+        expect(dayButton(name)).toBeDisabled()
+      );
+      expect(dayButton("Saturday, March 8, 2025")).toBeDisabled();
+      expect(dayButton("Sunday, March 9, 2025")).toBeDisabled();
+      expect(dayButton("Wednesday, March 5, 2025")).toBeDisabled();
+      expect(dayButton("Friday, March 28, 2025")).toBeEnabled();
+      expect(dayButton("Monday, March 31, 2025")).toBeDisabled();
+      expect(dayButton("Monday, March 3, 2025")).toBeEnabled();
+    });
+
+    it("disables days between the bounds of an interval", () => {
+      render(
+        <Calendar
+          selected={initialDate}
+          disabledDays={{ after: new Date(2025, 2, 10), before: new Date(2025, 2, 13) }}
+        />
+      );
+
+      expect(dayButton("Monday, March 10, 2025")).toBeEnabled();
+      expect(dayButton("Tuesday, March 11, 2025")).toBeDisabled();
+      expect(dayButton("Wednesday, March 12, 2025")).toBeDisabled();
+      expect(dayButton("Thursday, March 13, 2025")).toBeEnabled();
+    });
+
+    it("applies class names, data attributes and labels of custom modifiers", () => {
+      render(
+        <Calendar
+          selected={initialDate}
+          modifiers={{ booked: [new Date(2025, 2, 14)], weekend: { dayOfWeek: [0, 6] } }}
+          modifiersClassNames={{ booked: "line-through", weekend: "text-red-500" }}
+          modifiersLabels={{ booked: "Booked" }}
+        />
+      );
+
+      const booked = dayButton("Friday, March 14, 2025, Booked");
+      expect(booked).toHaveClass("line-through");
+      expect(booked).toHaveAttribute("data-booked", "true");
+      expect(booked).not.toHaveAttribute("data-weekend");
+
+      const weekend = dayButton("Saturday, March 15, 2025");
+      expect(weekend).toHaveClass("text-red-500");
+      expect(weekend).toHaveAttribute("data-weekend", "true");
+    });
+  });
+
+  describe("Component Slots", () => {
+    const initialDate = new Date(2025, 2, 10);
+
+    it("renders a custom Day inside the day button with its state", async () => {
+      const user = userEvent.setup();
+      render(
+        <Calendar
+          selected={initialDate}
+          modifiers={{ booked: [new Date(2025, 2, 14)] }}
+          onSelect={mockOnSelect}
+          components={{
+            Day: ({ date, modifiers }) => (
+              <span>
+                {date.getDate()}
+                <small>
+                  {modifiers.booked ? "Sold out" : modifiers.selected ? "Selected" : "$99"}
+                </small>
+              </span>
+            ),
+          }}
+        />
+      );
+
+      const day = screen.getByRole("button", { name: "Wednesday, March 12, 2025" });
+      expect(day).toHaveTextContent("12$99");
+      expect(screen.getByRole("button", { name: "Monday, March 10, 2025" })).toHaveTextContent(
+        "Selected"
+      );
+      expect(screen.getByRole("button", { name: "Friday, March 14, 2025" })).toHaveTextContent(
+        "Sold out"
+      );
+
+      await user.click(day);
+      expect(mockOnSelect).toHaveBeenCalledWith(new Date(2025, 2, 12));
+    });
+
+    it("renders custom Weekday, Caption and WeekNumber slots", () => {
+      render(
+        <Calendar
+          selected={initialDate}
+          showWeekNumbers
+          components={{
+            Weekday: ({ weekday }) => <>{weekday.longName.charAt(0)}</>,
+            Caption: ({ month, label }) => (
+              <>
+                {label} ({month.getMonth() + 1})
+              </>
+            ),
+            WeekNumber: ({ weekNumber, week }) => (
+              <span data-testid="week-number">
+                W{weekNumber}:{week.length}
+              </span>
+            ),
+          }}
+        />
+      );
+
+      expect(screen.getByRole("columnheader", { name: "Monday" })).toHaveTextContent(/^M$/);
+      expect(screen.getByText("March 2025 (3)")).toBeInTheDocument();
+      expect(screen.getAllByTestId("week-number")[0]).toHaveTextContent(/^W\d+:7$/);
+    });
+
+    it("renders a custom NavButton that navigates", async () => {
+      const user = userEvent.setup();
+      render(
+        <Calendar
+          selected={initialDate}
+          onMonthChange={mockOnMonthChange}
+          components={{
+            NavButton: ({ direction, ...props }) => (
+              <button type="button" {...props}>
+                {direction === "previous" ? "Prev" : "Next"}
+              </button>
+            ),
+          }}
+        />
+      );
+
+      await user.click(screen.getByRole("button", { name: "Next month" }));
+
+      expect(screen.getByRole("button", { name: "Next month" })).toHaveTextContent("Next");
+      expect(mockOnMonthChange).toHaveBeenCalledWith(new Date(2025, 3, 1));
+    });
+  });
+
+  describe("Week Numbers", () => {
+    const weekNumbers = () =>
+      screen.getAllByRole("rowheader").map((cell) => cell.getAttribute("aria-label"));
+    const renderWeekRangeCalendar = (props: Partial<ICalendarRangeProps> = {}) =>
+      render(
+        <Calendar
+          mode="range"
+          defaultMonth={new Date(2025, 2, 1)}
+          locale="de-DE"
+          showWeekNumbers
+          onSelect={mockOnSelect}
+          onWeekNumberClick={vi.fn()}
+          {...props}
+        />
+      );
+
+    it("numbers each row by ISO-8601 across the year boundary", () => {
+      render(<Calendar selected={new Date(2021, 0, 15)} showWeekNumbers />);
+
+      // Sunday-first rows of January 2021, starting on December 27, 2020
+      expect(weekNumbers()).toEqual(["Week 53", "Week 1", "Week 2", "Week 3", "Week 4", "Week 5"]);
+    });
+
+    it("numbers Monday-first rows by ISO-8601", () => {
+      render(<Calendar selected={new Date(2024, 11, 15)} locale="de-DE" showWeekNumbers />);
+
+      expect(weekNumbers()).toEqual([
+        "Week 48",
+        "Week 49",
+        "Week 50",
+        "Week 51",
+        "Week 52",
+        "Week 1",
+      ]);
+    });
+
+    it("numbers rows by the rules of the locale", () => {
+      render(<Calendar selected={new Date(2021, 0, 15)} showWeekNumbers weekNumbering="locale" />);
+
+      expect(weekNumbers()).toEqual(["Week 1", "Week 2", "Week 3", "Week 4", "Week 5", "Week 6"]);
+    });
+
+    it("selects the week as a range when a week number is clicked", async () => {
+      const user = userEvent.setup();
+      const onWeekNumberClick = vi.fn();
+      render(
+        <Calendar
+          mode="range"
+          defaultSelected={{ from: new Date(2025, 2, 3), to: new Date(2025, 2, 3) }}
+          locale="de-DE"
+          showWeekNumbers
+          onSelect={mockOnSelect}
+          onWeekNumberClick={onWeekNumberClick}
+        />
+      );
+
+      await user.click(screen.getByRole("button", { name: "Week 11" }));
+
+      expect(mockOnSelect).toHaveBeenCalledWith({
+        from: new Date(2025, 2, 10),
+        to: new Date(2025, 2, 16),
+      });
+      expect(onWeekNumberClick).toHaveBeenCalledWith(11, expect.any(Array));
+      expect(onWeekNumberClick.mock.calls[0][1]).toHaveLength(7);
+      expect(
+        screen.getByRole("button", { name: "Sonntag, 16. März 2025" }).closest("[role=gridcell]")
+      ).toHaveAttribute("aria-selected", "true");
+    });
+
+    it("selects the days of the week from minDate", async () => {
+      const user = userEvent.setup();
+      renderWeekRangeCalendar({ minDate: new Date(2025, 2, 12) });
+
+      expect(screen.getByRole("button", { name: "Week 10" })).toBeDisabled();
+      await user.click(screen.getByRole("button", { name: "Week 11" }));
+
+      expect(mockOnSelect).toHaveBeenCalledWith({
+        from: new Date(2025, 2, 12),
+        to: new Date(2025, 2, 16),
+      });
+    });
+
+    it("blocks weeks with disabled days when they are excluded", async () => {
+      const user = userEvent.setup();
+      renderWeekRangeCalendar({ disabledDays: new Date(2025, 2, 12), excludeDisabled: true });
+
+      const week = screen.getByRole("button", { name: "Week 11" });
+      expect(week).toBeDisabled();
+      await user.click(week);
+
+      expect(mockOnSelect).not.toHaveBeenCalled();
+      expect(screen.getByRole("button", { name: "Week 12" })).toBeEnabled();
+    });
+
+    it("blocks weeks longer than maxRangeLength", () => {
+      renderWeekRangeCalendar({ maxRangeLength: 5 });
+
+      expect(screen.getByRole("button", { name: "Week 11" })).toBeDisabled();
+    });
+  });
+
+  describe("Time Zones", () => {
+    const dayCell = (name: string) =>
+      screen.getByRole("button", { name }).closest("[role=gridcell]");
+
+    it("shows a selected instant on its day in the time zone", () => {
+      render(
+        <Calendar selected={new Date("2024-03-10T02:00:00Z")} timeZone="America/Los_Angeles" />
+      );
+
+      expect(dayCell("Saturday, March 9, 2024")).toHaveAttribute("aria-selected", "true");
+      expect(dayCell("Sunday, March 10, 2024")).toHaveAttribute("aria-selected", "false");
+    });
+
+    it("emits the start of the clicked day in the time zone", async () => {
+      const user = userEvent.setup();
+      render(
+        <Calendar
+          selected={new Date("2024-03-10T00:00:00Z")}
+          timeZone="Asia/Tokyo"
+          onSelect={mockOnSelect}
+          onDayClick={mockOnDayClick}
+        />
+      );
+
+      await user.click(screen.getByRole("button", { name: "Friday, March 15, 2024" }));
+
+      expect(mockOnSelect).toHaveBeenCalledWith(new Date("2024-03-14T15:00:00Z"));
+      expect(mockOnDayClick).toHaveBeenCalledWith(new Date("2024-03-14T15:00:00Z"));
+    });
+
+    it("applies minDate on its day in the time zone", () => {
+      render(
+        <Calendar
+          selected={new Date("2024-03-12T00:00:00Z")}
+          timeZone="Asia/Tokyo"
+          minDate={new Date("2024-03-10T23:30:00Z")} // March 11, 08:30 in Tokyo
+        />
+      );
+
+      expect(screen.getByRole("button", { name: "Sunday, March 10, 2024" })).toBeDisabled();
+      expect(screen.getByRole("button", { name: "Monday, March 11, 2024" })).toBeEnabled();
+    });
+
+    it("converts plain dates to and from instants in the time zone", () => {
+      const date = parsePlainDate("2024-03-15", "Asia/Tokyo");
+
+      expect(date).toEqual(new Date("2024-03-14T15:00:00Z"));
+      expect(formatPlainDate(date!, "Asia/Tokyo")).toBe("2024-03-15");
+      expect(parsePlainDate("2024-03-10", "America/New_York")).toEqual(
+        new Date("2024-03-10T05:00:00Z")
+      );
+      expect(formatPlainDate(new Date(2024, 1, 29))).toBe("2024-02-29");
+      expect(parsePlainDate("2024-02-30")).toBeUndefined();
+    });
+  });
+
+  describe("Calendar Systems", () => {
+    const dayButtons = () =>
+      within(screen.getByRole("grid"))
+        .getAllByRole("button")
+        .filter((button) => !button.hasAttribute("disabled"));
+
+    it("renders Persian months with their own lengths and labels", async () => {
+      const user = userEvent.setup();
+      render(
+        <Calendar selected={new Date(2024, 2, 20)} calendar="persian" onSelect={mockOnSelect} />
+      );
+
+      expect(screen.getByText("Farvardin 1403 AP")).toBeInTheDocument();
+      expect(dayButtons()).toHaveLength(31);
+      expect(dayButtons()[0]).toHaveTextContent(/^1$/);
+
+      await user.click(screen.getByRole("button", { name: "Wednesday, Farvardin 1, 1403 AP" }));
+      expect(mockOnSelect).toHaveBeenCalledWith(new Date(2024, 2, 20));
+
+      // Esfand 1402 has 29 days
+      await user.click(screen.getByRole("button", { name: "Previous month" }));
+      await user.click(screen.getByRole("button", { name: "Previous month" }));
+      expect(screen.getByText("Bahman 1402 AP")).toBeInTheDocument();
+      await user.click(screen.getByRole("button", { name: "Next month" }));
+      expect(screen.getByText("Esfand 1402 AP")).toBeInTheDocument();
+      expect(dayButtons()).toHaveLength(29);
+    });
+
+    it("numbers adjacent days in the calendar system with the digits of the locale", () => {
+      const { rerender } = render(
+        <Calendar selected={new Date(2024, 2, 20)} calendar="persian" showOutsideDays />
+      );
+
+      // Farvardin 1403 starts on a Wednesday, after the last days of Esfand 1402
+      const outsideDays = () =>
+        within(screen.getByRole("grid"))
+          .getAllByRole("button")
+          .filter((button) => button.hasAttribute("disabled"));
+      expect(outsideDays()[0]).toHaveTextContent(/^27$/);
+      expect(outsideDays()[2]).toHaveTextContent(/^29$/);
+
+      rerender(
+        <Calendar
+          selected={new Date(2024, 2, 20)}
+          calendar="persian"
+          locale="fa-IR"
+          showOutsideDays
+        />
+      );
+      expect(outsideDays()[0]).toHaveTextContent(/^۲۶$/);
+      expect(dayButtons()[0]).toHaveTextContent(/^۱$/);
+    });
+
+    it("lists the 13 months of a Hebrew leap year in the month dropdown", async () => {
+      const user = userEvent.setup();
+      render(
+        <Calendar
+          selected={new Date(2024, 2, 11)}
+          calendar="hebrew"
+          captionLayout="dropdown"
+          onMonthChange={mockOnMonthChange}
+        />
+      );
+
+      expect(screen.getByRole("combobox", { name: "Month" })).toHaveTextContent("Adar II");
+      expect(screen.getByRole("combobox", { name: "Year" })).toHaveTextContent("5784");
+
+      await user.click(screen.getByRole("combobox", { name: "Month" }));
+      expect(screen.getAllByRole("option")).toHaveLength(13);
+      await user.click(screen.getByRole("option", { name: "Tishri" }));
+
+      expect(mockOnMonthChange).toHaveBeenCalledWith(new Date(2023, 8, 16));
+    });
+
+    it("moves by Hijri months with PageDown", async () => {
+      const user = userEvent.setup();
+      render(<Calendar selected={new Date(2024, 2, 11)} calendar="islamic-umalqura" />);
+
+      await user.click(screen.getByRole("button", { name: /Ramadan 1, 1445/ }));
+      await user.keyboard("{PageDown}");
+
+      expect(screen.getByRole("button", { name: /Shawwal 1, 1445/ })).toHaveFocus();
+    });
+  });
+
+  describe("Right-to-Left", () => {
+    it("flips horizontal arrow keys and range ends in RTL", async () => {
+      const user = userEvent.setup();
+      render(
+        <DirectionProvider dir="rtl">
+          <Calendar
+            mode="range"
+            selected={{ from: new Date(2025, 2, 10), to: new Date(2025, 2, 12) }}
+          />
+        </DirectionProvider>
+      );
+
+      expect(screen.getByRole("grid").closest("[dir]")).toHaveAttribute("dir", "rtl");
+      expect(screen.getByRole("button", { name: "Monday, March 10, 2025" })).toHaveClass(
+        "rounded-s-full"
+      );
+      expect(screen.getByRole("button", { name: "Wednesday, March 12, 2025" })).toHaveClass(
+        "rounded-e-full"
+      );
+
+      await user.click(screen.getByRole("button", { name: "Tuesday, March 11, 2025" }));
+      await user.keyboard("{ArrowLeft}");
+      expect(screen.getByRole("button", { name: "Wednesday, March 12, 2025" })).toHaveFocus();
+      await user.keyboard("{ArrowRight}{ArrowRight}");
+      expect(screen.getByRole("button", { name: "Monday, March 10, 2025" })).toHaveFocus();
+    });
+  });
+
+  describe("Today and Presets", () => {
+    const today = new Date(2024, 4, 15); // May 15, 2024
+
+    it("marks today with aria-current", () => {
+      render(<Calendar today={today} />);
+
+      expect(screen.getByRole("button", { name: "Wednesday, May 15, 2024" })).toHaveAttribute(
+        "aria-current",
+        "date"
+      );
+      expect(screen.getByRole("button", { name: "Thursday, May 16, 2024" })).not.toHaveAttribute(
+        "aria-current"
+      );
+    });
+
+    it("goes to today and selects it with the today button", async () => {
+      const user = userEvent.setup();
+      render(
+        <Calendar
+          today={today}
+          selected={new Date(2023, 0, 10)}
+          showTodayButton
+          onSelect={mockOnSelect}
+          onMonthChange={mockOnMonthChange}
+        />
+      );
+
+      await user.click(screen.getByRole("button", { name: "Today" }));
+
+      expect(screen.getByText("May 2024")).toBeInTheDocument();
+      expect(mockOnMonthChange).toHaveBeenCalledWith(new Date(2024, 4, 1));
+      expect(mockOnSelect).toHaveBeenCalledWith(today);
+    });
+
+    it("selects the range of a preset", async () => {
+      const user = userEvent.setup();
+      render(
+        <Calendar
+          mode="range"
+          today={today}
+          presets={[CALENDAR_PRESETS.last7Days, CALENDAR_PRESETS.lastQuarter]}
+          onSelect={mockOnSelect}
+        />
+      );
+
+      await user.click(screen.getByRole("button", { name: "Last 7 days" }));
+      expect(mockOnSelect).toHaveBeenLastCalledWith({ from: new Date(2024, 4, 9), to: today });
+      expect(screen.getByRole("button", { name: "Last 7 days" })).toHaveAttribute(
+        "aria-pressed",
+        "true"
+      );
+
+      await user.click(screen.getByRole("button", { name: "Last quarter" }));
+      expect(mockOnSelect).toHaveBeenLastCalledWith({
+        from: new Date(2024, 0, 1),
+        to: new Date(2024, 2, 31),
+      });
+      expect(screen.getByText("January 2024")).toBeInTheDocument();
+    });
+
+    it("disables presets breaking the range constraints", () => {
+      render(
+        <Calendar
+          mode="range"
+          today={today}
+          minDate={new Date(2024, 4, 1)}
+          maxRangeLength={14}
+          presets={[
+            CALENDAR_PRESETS.last7Days,
+            CALENDAR_PRESETS.last30Days,
+            CALENDAR_PRESETS.lastMonth,
+          ]}
+        />
+      );
+
+      expect(screen.getByRole("button", { name: "Last 7 days" })).toBeEnabled();
+      expect(screen.getByRole("button", { name: "Last 30 days" })).toBeDisabled();
+      expect(screen.getByRole("button", { name: "Last month" })).toBeDisabled();
+    });
+  });
+
+  describe("Views", () => {
+    const mockOnViewChange = vi.fn();
+
+    it("zooms out from the title and zooms in by picking a year and a month", async () => {
+      const user = userEvent.setup();
+      render(<Calendar selected={new Date(2024, 4, 15)} onViewChange={mockOnViewChange} />);
+
+      await user.click(screen.getByRole("button", { name: "May 2024, choose month" }));
+      expect(mockOnViewChange).toHaveBeenLastCalledWith("month");
+      expect(screen.getByRole("grid", { name: "2024" })).toBeInTheDocument();
+      expect(screen.getByRole("button", { name: "May 2024" })).toHaveAttribute("tabindex", "0");
+
+      await user.click(screen.getByRole("button", { name: "2024, choose year" }));
+      expect(mockOnViewChange).toHaveBeenLastCalledWith("year");
+      expect(screen.getByRole("grid", { name: "2020 – 2029" })).toBeInTheDocument();
+
+      await user.click(screen.getByRole("button", { name: "Previous decade" }));
+      await user.click(screen.getByRole("button", { name: "2012" }));
+      expect(mockOnViewChange).toHaveBeenLastCalledWith("month");
+
+      await user.click(screen.getByRole("button", { name: "March 2012" }));
+      expect(mockOnViewChange).toHaveBeenLastCalledWith("day");
+      expect(screen.getByRole("grid", { name: "March 2012" })).toBeInTheDocument();
+    });
+
+    it("navigates the month grid with arrow keys", async () => {
+      const user = userEvent.setup();
+      render(<Calendar defaultView="month" selected={new Date(2024, 4, 15)} />);
+
+      screen.getByRole("button", { name: "May 2024" }).focus();
+      await user.keyboard("{ArrowRight}");
+      expect(screen.getByRole("button", { name: "June 2024" })).toHaveFocus();
+      await user.keyboard("{ArrowDown}");
+      expect(screen.getByRole("button", { name: "September 2024" })).toHaveFocus();
+      await user.keyboard("{Home}");
+      expect(screen.getByRole("button", { name: "July 2024" })).toHaveFocus();
+    });
+
+    it("selects months with minView and limits them to minDate/maxDate", async () => {
+      const user = userEvent.setup();
+      render(
+        <Calendar
+          minView="month"
+          minDate={new Date(2024, 2, 10)}
+          maxDate={new Date(2024, 9, 5)}
+          selected={new Date(2024, 4, 1)}
+          onSelect={mockOnSelect}
+        />
+      );
+
+      expect(screen.getByRole("button", { name: "February 2024" })).toBeDisabled();
+      expect(screen.getByRole("button", { name: "March 2024" })).toBeEnabled();
+      expect(screen.getByRole("button", { name: "November 2024" })).toBeDisabled();
+      expect(screen.getByRole("button", { name: "Previous year" })).toBeDisabled();
+      expect(screen.getByRole("button", { name: "Next year" })).toBeDisabled();
+
+      await user.click(screen.getByRole("button", { name: "June 2024" }));
+      expect(mockOnSelect).toHaveBeenCalledWith(new Date(2024, 5, 1));
+      expect(screen.getByRole("grid", { name: "2024" })).toBeInTheDocument();
+    });
+
+    it("selects ranges of whole months", async () => {
+      const user = userEvent.setup();
+      render(
+        <Calendar
+          mode="range"
+          minView="month"
+          defaultSelected={{ from: new Date(2024, 4, 1), to: new Date(2024, 4, 31) }}
+          onSelect={mockOnSelect}
+        />
+      );
+
+      await user.click(screen.getByRole("button", { name: "March 2024" }));
+      await user.click(screen.getByRole("button", { name: "January 2024" }));
+
+      expect(mockOnSelect).toHaveBeenLastCalledWith({
+        from: new Date(2024, 0, 1),
+        to: new Date(2024, 2, 31),
+      });
+    });
+
+    it("starts in the year view with only year picking", async () => {
+      const user = userEvent.setup();
+      render(<Calendar minView="year" selected={new Date(2024, 4, 15)} onSelect={mockOnSelect} />);
+
+      expect(screen.getByText("2020 – 2029")).toBeInTheDocument();
+      expect(screen.queryByRole("button", { name: /choose/ })).not.toBeInTheDocument();
+
+      await user.click(screen.getByRole("button", { name: "2027" }));
+      expect(mockOnSelect).toHaveBeenCalledWith(new Date(2027, 0, 1));
+    });
+  });
+
+  describe("Controlled State", () => {
+    it("clears the selection when the parent passes undefined", () => {
+      const { rerender } = render(<Calendar selected={new Date(2025, 2, 10)} />);
+      expect(screen.getByRole("button", { name: "Monday, March 10, 2025" })).toHaveClass(
+        "from-blue-500"
+      );
+
+      rerender(<Calendar selected={undefined} />);
+      expect(screen.getByRole("button", { name: "Monday, March 10, 2025" })).not.toHaveClass(
+        "from-blue-500"
+      );
+    });
+
+    it("only changes the selection through the parent when controlled", async () => {
+      const user = userEvent.setup();
+      render(<Calendar selected={new Date(2025, 2, 10)} onSelect={mockOnSelect} />);
+
+      await user.click(screen.getByRole("button", { name: "Friday, March 14, 2025" }));
+
+      expect(mockOnSelect).toHaveBeenCalledWith(new Date(2025, 2, 14));
+      expect(screen.getByRole("button", { name: "Friday, March 14, 2025" })).not.toHaveClass(
+        "from-blue-500"
+      );
+    });
+
+    it("keeps the displayed month when the parent echoes a selection back", async () => {
+      const user = userEvent.setup();
+      const ControlledCalendar = () => {
+        const [dates, setDates] = useState<Date[]>([new Date(2025, 0, 10)]);
+        return (
+          <Calendar mode="multiple" selected={dates} onSelect={(next) => setDates(next ?? [])} />
+        );
+      };
+      render(<ControlledCalendar />);
+
+      await user.click(screen.getByRole("button", { name: "Next month" }));
+      await user.click(screen.getByRole("button", { name: "Monday, February 17, 2025" }));
+
+      expect(screen.getByRole("grid", { name: "February 2025" })).toBeInTheDocument();
+      expect(
+        screen
+          .getByRole("button", { name: "Monday, February 17, 2025" })
+          .closest('[role="gridcell"]')
+      ).toHaveAttribute("aria-selected", "true");
+    });
+
+    it("starts at defaultMonth and follows a controlled month", async () => {
+      const user = userEvent.setup();
+      const { rerender } = render(<Calendar defaultMonth={new Date(2025, 5, 20)} />);
+      expect(screen.getByText("June 2025")).toBeInTheDocument();
+
+      rerender(<Calendar month={new Date(2026, 0, 1)} onMonthChange={mockOnMonthChange} />);
+      expect(screen.getByText("January 2026")).toBeInTheDocument();
+
+      await user.click(screen.getByRole("button", { name: "Next month" }));
+      expect(mockOnMonthChange).toHaveBeenCalledWith(new Date(2026, 1, 1));
+      expect(screen.getByText("January 2026")).toBeInTheDocument();
+    });
+
+    it("keeps two calendars in sync through a shared month", async () => {
+      const user = userEvent.setup();
+      const SyncedCalendars = () => {
+        const [month, setMonth] = useState(new Date(2025, 2, 1));
+        return (
+          <>
+            <Calendar month={month} onMonthChange={setMonth} />
+            <Calendar
+              month={new Date(month.getFullYear(), month.getMonth() + 1, 1)}
+              onMonthChange={(next) => setMonth(new Date(next.getFullYear(), next.getMonth() - 1))}
+            />
+          </>
+        );
+      };
+      render(<SyncedCalendars />);
+
+      await user.click(screen.getAllByRole("button", { name: "Next month" })[0]);
+
+      expect(screen.getByRole("grid", { name: "April 2025" })).toBeInTheDocument();
+      expect(screen.getByRole("grid", { name: "May 2025" })).toBeInTheDocument();
+    });
+  });
+
+  describe("Date Adapters", () => {
+    // Minimal stand-in for Temporal.PlainDate, backed by local dates
+    class PlainDate {
+      constructor(
+        readonly year: number,
+        readonly month: number,
+        readonly day: number
+      ) {}
+
+      static from(item: string | { year: number; month: number; day: number }) {
+        if (typeof item !== "string") return new PlainDate(item.year, item.month, item.day);
+        const [year, month, day] = item.split("-").map(Number);
+        const date = new PlainDate(year, month, day);
+        if (date.toDate().getDate() !== day) throw new RangeError(`Invalid date: ${item}`);
+        return date;
+      }
+
+      static compare(a: PlainDate, b: PlainDate) {
+        return Math.sign(a.toDate().getTime() - b.toDate().getTime());
+      }
+
+      toLocaleString(locale?: string, options?: Intl.DateTimeFormatOptions) {
+        return this.toDate().toLocaleDateString(locale, options);
+      }
+
+      private toDate() {
+        return new Date(this.year, this.month - 1, this.day);
+      }
+    }
+
+    const temporalAdapter = createTemporalAdapter({ PlainDate });
+
+    it("selects Temporal plain dates and applies their constraints", async () => {
+      const user = userEvent.setup();
+      render(
+        <Calendar
+          dateAdapter={temporalAdapter}
+          defaultSelected={PlainDate.from("2024-02-15")}
+          minDate={PlainDate.from("2024-02-10")}
+          disabledDays={[{ from: PlainDate.from("2024-02-22"), to: PlainDate.from("2024-02-24") }]}
+          onSelect={mockOnSelect}
+        />
+      );
+
+      expect(screen.getByRole("grid", { name: "February 2024" })).toBeInTheDocument();
+      expect(screen.getByRole("button", { name: "Friday, February 9, 2024" })).toBeDisabled();
+      expect(screen.getByRole("button", { name: "Friday, February 23, 2024" })).toBeDisabled();
+
+      await user.click(screen.getByRole("button", { name: "Tuesday, February 20, 2024" }));
+
+      expect(mockOnSelect).toHaveBeenCalledWith(new PlainDate(2024, 2, 20));
+    });
+
+    it("emits Temporal plain date ranges", async () => {
+      const user = userEvent.setup();
+      render(
+        <Calendar
+          mode="range"
+          dateAdapter={temporalAdapter}
+          defaultMonth={PlainDate.from("2024-02-01")}
+          onSelect={mockOnSelect}
+        />
+      );
+
+      await user.click(screen.getByRole("button", { name: "Monday, February 5, 2024" }));
+      await user.click(screen.getByRole("button", { name: "Thursday, February 8, 2024" }));
+
+      expect(mockOnSelect).toHaveBeenLastCalledWith({
+        from: new PlainDate(2024, 2, 5),
+        to: new PlainDate(2024, 2, 8),
+      });
+    });
+
+    it("compares and formats dates through the adapters", () => {
+      const nativeAdapter = createNativeAdapter("Asia/Tokyo");
+      const january31 = new Date("2024-01-30T15:00:00Z");
+
+      expect(nativeAdapter.toDate(january31)).toEqual(new Date(2024, 0, 31));
+      expect(nativeAdapter.compare(january31, new Date("2024-01-31T14:59:59Z"))).toBe(0);
+      expect(nativeAdapter.format(january31, "en-US")).toBe("1/31/2024");
+
+      const plainDate = PlainDate.from("2024-01-31");
+      expect(temporalAdapter.compare(plainDate, PlainDate.from("2024-02-01"))).toBe(-1);
+      expect(temporalAdapter.format(plainDate, "en-US", { month: "long" })).toBe("January");
+    });
+
+    it("keeps Luxon dates in their zone", () => {
+      // Minimal stand-in for Luxon's DateTime, recording the zone it was created in
+      class DateTime {
+        constructor(
+          readonly plainDate: PlainDate,
+          readonly zone?: string
+        ) {}
+
+        static fromObject(values: { year: number; month: number; day: number }, options = {}) {
+          return new DateTime(PlainDate.from(values), (options as { zone?: string }).zone);
+        }
+
+        get year() {
+          return this.plainDate.year;
+        }
+        get month() {
+          return this.plainDate.month;
+        }
+        get day() {
+          return this.plainDate.day;
+        }
+        toLocaleString(format?: Intl.DateTimeFormatOptions, { locale }: { locale?: string } = {}) {
+          return this.plainDate.toLocaleString(locale, format);
+        }
+      }
+
+      const luxonAdapter = createLuxonAdapter(DateTime, { zone: "Europe/Paris" });
+      const date = luxonAdapter.fromDate(new Date(2024, 2, 31));
+
+      expect(date).toEqual(new DateTime(new PlainDate(2024, 3, 31), "Europe/Paris"));
+      expect(luxonAdapter.toDate(date)).toEqual(new Date(2024, 2, 31));
+      expect(luxonAdapter.format(date, "en-US", { month: "long" })).toBe("March");
+    });
+  });
 });
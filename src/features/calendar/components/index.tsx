@@ -1,8 +1,53 @@
-import { useCallback, useEffect, useMemo, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 
+import { isRtlElement, useDirection } from "../../../core/direction";
 import { cn } from "../../../core/utils";
 import Button from "../../button/components";
-import type { ICalendarProps, IDateRange, SelectedDate } from "../core/types";
+import { getDateAdapter } from "../core/adapters";
+import { CALENDAR_VIEWS } from "../core/constants";
+import type {
+  ICalendarDay,
+  ICalendarDayModifiers,
+  ICalendarMonth,
+  ICalendarNavButtonProps,
+  ICalendarPeriod,
+  ICalendarPreset,
+  ICalendarProps,
+  ICalendarSelectOption,
+  IDateRange,
+  SelectedDate,
+  TCalendarView,
+} from "../core/types";
+import {
+  addCalendarMonths,
+  addCalendarYears,
+  addDays,
+  differenceInDays,
+  getCalendarLocale,
+  getCalendarMonth,
+  getCalendarParts,
+  getCalendarYearMonths,
+  getDayKey,
+  getDaysInCalendarMonth,
+  getFirstSelectedDate,
+  getLocaleWeekInfo,
+  getLocaleWeekStartsOn,
+  getMonthWeeks,
+  getWeekNumber,
+  getWeekdays,
+  isDateRange,
+  isMatch,
+  isSameDay,
+  isSameSelection,
+  mapMatchers,
+  mapSelection,
+  startOfCalendarMonth,
+  startOfDay,
+  startOfWeek,
+  toCalendarDay,
+} from "../core/utils";
+import CalendarPeriodGrid from "./calendar-period-grid";
+import CalendarSelect from "./calendar-select";
 
 /**
  * Calendar Component
@@ -10,7 +55,7 @@ import type { ICalendarProps, IDateRange, SelectedDate } from "../core/types";
  * A production-grade date picker that provides a robust foundation for date selection
  *
  * Architecture:
- * - Core date management using date-fns
+ * - Core date management on native Dates, with adapters for other date types
  * - Grid-based layout for optimal performance
  * - Memoized calculations for date arrays
  * - Controlled and uncontrolled modes
@@ -41,352 +86,1181 @@ import type { ICalendarProps, IDateRange, SelectedDate } from "../core/types";
  *
  * // With date range
  * <Calendar
- *   enableRange
+ *   mode="range"
  *   selected={dateRange}
  *   onSelect={setDateRange}
  *   minDate={new Date()}
  *   maxDate={addMonths(new Date(), 3)}
  * />
+ *
+ * // With multiple independent dates
+ * <Calendar
+ *   mode="multiple"
+ *   selected={dates}
+ *   onSelect={setDates}
+ *   max={5}
+ * />
+ *
+ * // With month and year dropdowns
+ * <Calendar
+ *   captionLayout="dropdown"
+ *   minDate={new Date(1900, 0, 1)}
+ *   maxDate={new Date()}
+ * />
+ *
+ * // Month picker for card expiry dates
+ * <Calendar minView="month" minDate={new Date()} />
  * ```
  */
-const Calendar = ({
-  classNames,
-  showOutsideDays = false,
-  fixedWeeks = false,
-  showWeekNumbers = false,
-  disabled,
-  disabledDays,
-  selected,
-  onSelect,
-  onDayClick,
-  onMonthChange,
-  minDate,
-  maxDate,
-  locale = "en-US",
-  enableRange = false,
-}: ICalendarProps) => {
-  // Track selected date, current month view and range selection
-  const [selectedDate, setSelectedDate] = useState<SelectedDate>(selected);
-  const [currentMonth, setCurrentMonth] = useState<Date>(
-    selected instanceof Date ? selected : selected?.from || new Date()
+const Calendar = <TDate = Date,>(
+  // The date type is only inferred from the date adapter
+  props: ICalendarProps<NoInfer<TDate>> & Pick<ICalendarProps<TDate>, "dateAdapter">
+) => {
+  const {
+    classNames,
+    showOutsideDays = false,
+    fixedWeeks = false,
+    showWeekNumbers = false,
+    weekNumbering = "iso",
+    onWeekNumberClick,
+    disabled,
+    disabledDays,
+    modifiers,
+    modifiersClassNames,
+    modifiersLabels,
+    components = {},
+    selected,
+    defaultSelected,
+    onDayClick,
+    month,
+    defaultMonth,
+    onMonthChange,
+    minDate: minDateProp,
+    maxDate: maxDateProp,
+    timeZone,
+    dateAdapter,
+    today: todayProp,
+    showTodayButton = false,
+    calendar = "gregory",
+    locale = "en-US",
+    mode = "single",
+    captionLayout = "buttons",
+    view: viewProp,
+    defaultView,
+    onViewChange,
+    minView = "day",
+    weekStartsOn: weekStartsOnProp,
+    numberOfMonths = 1,
+    pagedNavigation = false,
+  } = props;
+  const { min, max } = props.mode === "multiple" ? props : {};
+  const { minRangeLength, maxRangeLength, excludeDisabled, presets, onRangeStartChange } =
+    props.mode === "range" ? props : {};
+  const weekStartsOn = weekStartsOnProp ?? getLocaleWeekStartsOn(locale);
+  const isRange = mode === "range";
+  const dir = useDirection();
+  const calendarLocale = getCalendarLocale(locale, calendar);
+
+  // Dates are handled as calendar days, converted by the date adapter at the boundaries
+  const adapter = useMemo(() => getDateAdapter(dateAdapter, timeZone), [dateAdapter, timeZone]);
+  const today = useMemo(
+    () => (todayProp ? adapter.toDate(todayProp) : toCalendarDay(new Date(), timeZone)),
+    [adapter, todayProp, timeZone]
   );
+  const minDate = useMemo(() => minDateProp && adapter.toDate(minDateProp), [adapter, minDateProp]);
+  const maxDate = useMemo(() => maxDateProp && adapter.toDate(maxDateProp), [adapter, maxDateProp]);
+  const disabledMatchers = useMemo(
+    () => mapMatchers(disabledDays, adapter.toDate, adapter.fromDate),
+    [adapter, disabledDays]
+  );
+  const modifierMatchers = useMemo(
+    () =>
+      Object.fromEntries(
+        Object.entries(modifiers ?? {}).map(([name, matchers]) => [
+          name,
+          mapMatchers(matchers, adapter.toDate, adapter.fromDate),
+        ])
+      ),
+    [adapter, modifiers]
+  );
+
+  // The selection is controlled by passing `selected`, even as undefined to clear it
+  const isSelectionControlled = "selected" in props;
+  const controlledSelected = useMemo(
+    () => mapSelection(selected, adapter.toDate),
+    [adapter, selected]
+  );
+  const [uncontrolledSelected, setSelectedDate] = useState<SelectedDate>(() =>
+    mapSelection(defaultSelected, adapter.toDate)
+  );
+  const selectedDate = isSelectionControlled ? controlledSelected : uncontrolledSelected;
+
+  // The displayed month is controlled by passing `month`
+  const [uncontrolledMonth, setCurrentMonth] = useState<Date>(() =>
+    startOfCalendarMonth(
+      defaultMonth ? adapter.toDate(defaultMonth) : (getFirstSelectedDate(selectedDate) ?? today),
+      calendar
+    )
+  );
+  const controlledMonth = useMemo(
+    () => month && startOfCalendarMonth(adapter.toDate(month), calendar),
+    [adapter, calendar, month]
+  );
+  const currentMonth = controlledMonth ?? uncontrolledMonth;
   const [rangeStart, setRangeStart] = useState<Date | null>(null);
+  const [hoveredDate, setHoveredDate] = useState<Date | null>(null);
+  const [focusedDate, setFocusedDate] = useState<Date | null>(null);
+  const [viewState, setViewState] = useState<TCalendarView>(defaultView ?? minView);
+  const shouldFocusDay = useRef(false);
+  const monthsRef = useRef<HTMLDivElement>(null);
+
+  // Views below minView can't be displayed
+  const view =
+    CALENDAR_VIEWS.indexOf(viewProp ?? viewState) < CALENDAR_VIEWS.indexOf(minView)
+      ? minView
+      : (viewProp ?? viewState);
+  const changeView = (newView: TCalendarView) => {
+    setViewState(newView);
+    onViewChange?.(newView);
+  };
+
+  // Selection last emitted through onSelect, echoed back by a controlling parent
+  const emittedSelection = useRef<SelectedDate>(undefined);
 
-  // Keep selected date in sync with prop changes
+  // Show a selection changed by the parent unless it is already displayed or
+  // is the echo of a selection made in the calendar, and cancel the range in
+  // progress when the parent clears the selection
   useEffect(() => {
-    if (selected) {
-      setSelectedDate(selected);
-      setCurrentMonth(selected instanceof Date ? selected : selected.from);
+    const firstSelectedDate = getFirstSelectedDate(controlledSelected);
+    if (!firstSelectedDate) {
+      setRangeStart(null);
+      return;
     }
-  }, [selected]);
+    if (isSameSelection(controlledSelected, emittedSelection.current)) return;
+    setCurrentMonth((displayedMonth) =>
+      firstSelectedDate >= displayedMonth &&
+      firstSelectedDate < addCalendarMonths(displayedMonth, numberOfMonths, calendar)
+        ? displayedMonth
+        : startOfCalendarMonth(firstSelectedDate, calendar)
+    );
+  }, [calendar, controlledSelected, numberOfMonths]);
+
+  // Display a month, reporting it as a date of the adapter
+  const changeMonth = useCallback(
+    (newMonth: Date) => {
+      setCurrentMonth(newMonth);
+      onMonthChange?.(adapter.fromDate(newMonth));
+    },
+    [adapter, onMonthChange]
+  );
+
+  // The callback type depends on the mode, which is checked when selecting
+  const onSelect = props.onSelect as ((value: SelectedDate<TDate>) => void) | undefined;
+  const emitSelect = useCallback(
+    (value: SelectedDate) => {
+      emittedSelection.current = value;
+      onSelect?.(mapSelection(value, adapter.fromDate));
+    },
+    [adapter, onSelect]
+  );
+
+  // Start or end a range selection, reporting it before the selection is emitted
+  const changeRangeStart = useCallback(
+    (start: Date | null) => {
+      setRangeStart(start);
+      onRangeStartChange?.(start ? adapter.fromDate(start) : undefined);
+    },
+    [adapter, onRangeStartChange]
+  );
 
   // Helper functions to check date positions in range selection
   const isDateInRange = useCallback(
     (date: Date) => {
-      if (!enableRange || !selectedDate || selectedDate instanceof Date) return false;
-      const { from, to } = selectedDate as IDateRange;
+      if (!isRange || !selectedDate || !isDateRange(selectedDate)) return false;
+      const { from, to } = selectedDate;
       return date >= from && date <= to;
     },
-    [enableRange, selectedDate]
+    [isRange, selectedDate]
   );
 
   const isDateRangeStart = useCallback(
     (date: Date) => {
-      if (!enableRange || !selectedDate || selectedDate instanceof Date) return false;
-      return date.getTime() === (selectedDate as IDateRange).from.getTime();
+      if (!isRange || !selectedDate || !isDateRange(selectedDate)) return false;
+      return date.getTime() === selectedDate.from.getTime();
     },
-    [enableRange, selectedDate]
+    [isRange, selectedDate]
   );
 
   const isDateRangeEnd = useCallback(
     (date: Date) => {
-      if (!enableRange || !selectedDate || selectedDate instanceof Date) return false;
-      return date.getTime() === (selectedDate as IDateRange).to.getTime();
+      if (!isRange || !selectedDate || !isDateRange(selectedDate)) return false;
+      return date.getTime() === selectedDate.to.getTime();
+    },
+    [isRange, selectedDate]
+  );
+
+  // Check whether a day is part of the selection in any mode
+  const isDateSelected = useCallback(
+    (date: Date) => {
+      if (selectedDate instanceof Date) return selectedDate.getTime() === date.getTime();
+      if (Array.isArray(selectedDate)) return selectedDate.some((d) => isSameDay(d, date));
+      return isDateInRange(date);
+    },
+    [isDateInRange, selectedDate]
+  );
+
+  // Navigate between months, by one month or by the whole block of displayed months
+  const handleMonthChange = useCallback(
+    (increment: number) => {
+      const newMonth = addCalendarMonths(
+        currentMonth,
+        increment * (pagedNavigation ? numberOfMonths : 1),
+        calendar
+      );
+      changeMonth(newMonth);
+    },
+    [calendar, changeMonth, currentMonth, numberOfMonths, pagedNavigation]
+  );
+
+  // Jump to a month and year picked from the caption dropdowns, clamped to minDate/maxDate
+  const handleMonthSelect = useCallback(
+    (year: number, month: number) => {
+      let newMonth = getCalendarMonth(year, month, calendar, currentMonth);
+      if (minDate && newMonth < startOfCalendarMonth(minDate, calendar)) {
+        newMonth = startOfCalendarMonth(minDate, calendar);
+      }
+      if (maxDate && newMonth > startOfCalendarMonth(maxDate, calendar)) {
+        newMonth = startOfCalendarMonth(maxDate, calendar);
+      }
+      changeMonth(newMonth);
+    },
+    [calendar, changeMonth, currentMonth, maxDate, minDate]
+  );
+
+  // Options for the caption dropdowns, limited by minDate/maxDate
+  const yearMonths = useMemo(
+    () => getCalendarYearMonths(currentMonth, calendar),
+    [calendar, currentMonth]
+  );
+  const currentMonthIndex = yearMonths.findIndex((month) => isSameDay(month, currentMonth));
+  const currentYear = getCalendarParts(currentMonth, calendar).year;
+  const decadeStart = currentYear - (currentYear % 10);
+
+  const monthOptions = useMemo<ICalendarSelectOption[]>(
+    () =>
+      yearMonths.map((month, index) => ({
+        value: index,
+        label: month.toLocaleDateString(calendarLocale, { month: "long" }),
+        disabled:
+          (minDate && addDays(month, getDaysInCalendarMonth(month, calendar) - 1) < minDate) ||
+          (maxDate && month > maxDate),
+      })),
+    [calendar, calendarLocale, maxDate, minDate, yearMonths]
+  );
+
+  const formatYear = useCallback(
+    (year: number) =>
+      calendar === "gregory"
+        ? new Date(year, 0, 1).toLocaleDateString(locale, { year: "numeric" })
+        : new Intl.NumberFormat(calendarLocale, { useGrouping: false }).format(year),
+    [calendar, calendarLocale, locale]
+  );
+
+  const yearOptions = useMemo<ICalendarSelectOption[]>(() => {
+    const getYear = (date: Date) => getCalendarParts(date, calendar).year;
+    const thisYear = getYear(today);
+    const fromYear = Math.min(minDate ? getYear(minDate) : thisYear - 100, currentYear);
+    const toYear = Math.max(maxDate ? getYear(maxDate) : thisYear + 10, currentYear);
+    return Array.from({ length: toYear - fromYear + 1 }).map((_, i) => ({
+      value: fromYear + i,
+      label: formatYear(fromYear + i),
+    }));
+  }, [calendar, currentYear, formatYear, maxDate, minDate, today]);
+
+  // Calculate calendar grid data for every displayed month, split into week rows
+  const calendarData = useMemo(() => {
+    // Weekday names in the locale, starting with the first day of the week
+    const weekdays = getWeekdays(locale, weekStartsOn);
+
+    const months: ICalendarMonth[] = Array.from({ length: numberOfMonths }).map((_, i) => {
+      const month = addCalendarMonths(currentMonth, i, calendar);
+      return { month, weeks: getMonthWeeks(month, weekStartsOn, fixedWeeks, calendar) };
+    });
+
+    return {
+      weekdays,
+      months,
+    };
+  }, [calendar, currentMonth, fixedWeeks, locale, numberOfMonths, weekStartsOn]);
+
+  // Check whether a day belongs to one of the displayed months
+  const isDayInView = useCallback(
+    (date: Date) =>
+      date >= currentMonth && date < addCalendarMonths(currentMonth, numberOfMonths, calendar),
+    [calendar, currentMonth, numberOfMonths]
+  );
+
+  // Week number of a grid row, by ISO-8601 or locale rules
+  const getRowWeekNumber = useCallback(
+    (week: ICalendarDay[]) => {
+      if (weekNumbering === "locale") {
+        return getWeekNumber(week[0].date, weekStartsOn, getLocaleWeekInfo(locale).minimalDays);
+      }
+      // Most days of a row starting on another day than Monday share the ISO week of its Thursday
+      const thursday = week.find(({ date }) => date.getDay() === 4) ?? week[0];
+      return getWeekNumber(thursday.date, 1, 4);
+    },
+    [locale, weekNumbering, weekStartsOn]
+  );
+
+  // Check whether a day can't be selected or focused
+  const isDayDisabled = useCallback(
+    (date: Date) =>
+      !!(
+        isMatch(date, disabledMatchers) ||
+        (minDate && date < minDate) ||
+        (maxDate && date > maxDate)
+      ),
+    [disabledMatchers, maxDate, minDate]
+  );
+
+  // Names of the custom modifiers matching a day
+  const getDayModifiers = useCallback(
+    (date: Date) =>
+      Object.keys(modifierMatchers).filter((name) => isMatch(date, modifierMatchers[name])),
+    [modifierMatchers]
+  );
+
+  // Nearest disabled days around the start of an in-progress range, within the displayed months
+  const rangeLimits = useMemo(() => {
+    if (!rangeStart || !excludeDisabled) return {};
+
+    const viewEnd = addCalendarMonths(currentMonth, numberOfMonths, calendar);
+    let before = addDays(rangeStart, -1);
+    while (before >= currentMonth && !isDayDisabled(before)) before = addDays(before, -1);
+    let after = addDays(rangeStart, 1);
+    while (after < viewEnd && !isDayDisabled(after)) after = addDays(after, 1);
+
+    return { before, after };
+  }, [calendar, currentMonth, excludeDisabled, isDayDisabled, numberOfMonths, rangeStart]);
+
+  // Check whether a day can't complete the in-progress range
+  const isRangeBlocked = useCallback(
+    (date: Date) => {
+      if (!rangeStart) return false;
+
+      const length = Math.abs(differenceInDays(date, rangeStart)) + 1;
+      if (minRangeLength !== undefined && length < minRangeLength) return true;
+      if (maxRangeLength !== undefined && length > maxRangeLength) return true;
+
+      const { before, after } = rangeLimits;
+      return !!((before && date <= before) || (after && date >= after));
+    },
+    [maxRangeLength, minRangeLength, rangeLimits, rangeStart]
+  );
+
+  // Tentative range shown while hovering or focusing a day during range selection
+  const previewRange = useMemo(() => {
+    if (!rangeStart || !hoveredDate || isRangeBlocked(hoveredDate)) return undefined;
+    return hoveredDate < rangeStart
+      ? { from: hoveredDate, to: rangeStart }
+      : { from: rangeStart, to: hoveredDate };
+  }, [hoveredDate, isRangeBlocked, rangeStart]);
+
+  // Select a date in single mode, or toggle it in multiple mode
+  const selectDate = useCallback(
+    (date: Date) => {
+      if (mode === "multiple") {
+        // Toggle the date, keeping the selection within min/max
+        const dates = Array.isArray(selectedDate) ? selectedDate : [];
+        const isSelected = dates.some((d) => isSameDay(d, date));
+        if (isSelected && min !== undefined && dates.length <= min) return;
+        if (!isSelected && max !== undefined && dates.length >= max) return;
+
+        const newDates = isSelected ? dates.filter((d) => !isSameDay(d, date)) : [...dates, date];
+        setSelectedDate(newDates);
+        emitSelect(newDates);
+      } else {
+        setSelectedDate(date);
+        emitSelect(date);
+      }
     },
-    [enableRange, selectedDate]
+    [emitSelect, max, min, mode, selectedDate]
   );
 
-  // Handle date selection with support for both single and range selection
+  // Handle date selection for single, multiple and range modes
   const handleDateClick = useCallback(
     (date: Date) => {
       if (disabled) return;
 
-      if (enableRange) {
+      if (mode === "range") {
         if (!rangeStart) {
           // Start new range selection
-          setRangeStart(date);
+          changeRangeStart(date);
           const newRange = { from: date, to: date };
           setSelectedDate(newRange);
-          onSelect?.(newRange);
+          emitSelect(newRange);
         } else {
-          // Complete range selection
+          // Complete range selection unless it breaks the range constraints
+          if (isRangeBlocked(date)) return;
           const start = date < rangeStart ? date : rangeStart;
           const end = date < rangeStart ? rangeStart : date;
-          setRangeStart(null);
+          changeRangeStart(null);
+          setHoveredDate(null);
           const newRange = { from: start, to: end };
           setSelectedDate(newRange);
-          onSelect?.(newRange);
+          emitSelect(newRange);
         }
       } else {
-        // Single date selection
-        setSelectedDate(date);
-        onSelect?.(date);
+        selectDate(date);
       }
-      onDayClick?.(date);
+      setFocusedDate(date);
+      onDayClick?.(adapter.fromDate(date));
     },
-    [disabled, enableRange, onDayClick, onSelect, rangeStart]
+    [
+      adapter,
+      changeRangeStart,
+      disabled,
+      emitSelect,
+      isRangeBlocked,
+      mode,
+      onDayClick,
+      rangeStart,
+      selectDate,
+    ]
   );
 
-  // Navigate between months
-  const handleMonthChange = useCallback(
-    (increment: number) => {
-      const newMonth = new Date(currentMonth);
-      newMonth.setMonth(newMonth.getMonth() + increment);
-      setCurrentMonth(newMonth);
-      onMonthChange?.(newMonth);
+  // Display the month of a day unless it is already displayed
+  const showMonth = (date: Date) => {
+    if (isDayInView(date)) return;
+    const newMonth = startOfCalendarMonth(date, calendar);
+    changeMonth(newMonth);
+  };
+
+  // Replace the selection with a complete range, cancelling the range in progress
+  const selectRange = (range: IDateRange) => {
+    changeRangeStart(null);
+    setHoveredDate(null);
+    setSelectedDate(range);
+    emitSelect(range);
+  };
+
+  // Check whether a whole range can be selected at once, following the range constraints
+  const isRangeSelectable = ({ from, to }: IDateRange) => {
+    if (disabled || isDayDisabled(from) || isDayDisabled(to)) return false;
+
+    const length = differenceInDays(to, from) + 1;
+    if (minRangeLength !== undefined && length < minRangeLength) return false;
+    if (maxRangeLength !== undefined && length > maxRangeLength) return false;
+
+    if (!excludeDisabled) return true;
+    for (let date = addDays(from, 1); date < to; date = addDays(date, 1)) {
+      if (isDayDisabled(date)) return false;
+    }
+    return true;
+  };
+
+  // First and last day of the month or the year of a date
+  const getPeriodBounds = (date: Date, periodView: TCalendarView) => {
+    if (periodView === "month") {
+      const start = startOfCalendarMonth(date, calendar);
+      return { start, end: addDays(start, getDaysInCalendarMonth(start, calendar) - 1) };
+    }
+    const start = getCalendarYearMonths(date, calendar)[0];
+    return { start, end: addDays(addCalendarYears(start, 1, calendar), -1) };
+  };
+
+  // Check whether a month or a year contains a selected date
+  const isPeriodSelected = (start: Date, end: Date) => {
+    if (selectedDate instanceof Date) return selectedDate >= start && selectedDate <= end;
+    if (Array.isArray(selectedDate)) return selectedDate.some((d) => d >= start && d <= end);
+    return !!selectedDate && selectedDate.from <= end && selectedDate.to >= start;
+  };
+
+  // Select the first day of a month or a year, or a range spanning whole periods
+  const selectPeriod = (start: Date, end: Date) => {
+    if (!isRange) {
+      selectDate(start);
+      return;
+    }
+
+    const newRange =
+      rangeStart && isDateRange(selectedDate)
+        ? {
+            from: start < selectedDate.from ? start : selectedDate.from,
+            to: end > selectedDate.to ? end : selectedDate.to,
+          }
+        : { from: start, to: end };
+    changeRangeStart(rangeStart ? null : start);
+    setSelectedDate(newRange);
+    emitSelect(newRange);
+  };
+
+  // Zoom in to a picked month or year, or select it in the lowest view
+  const handlePeriodSelect = ({ start, end }: ICalendarPeriod) => {
+    if (disabled) return;
+
+    if (view === minView) {
+      selectPeriod(start, end);
+      return;
+    }
+    if (view === "month") {
+      changeMonth(start);
+    } else {
+      handleMonthSelect(getCalendarParts(start, calendar).year, currentMonthIndex);
+    }
+    changeView(CALENDAR_VIEWS[CALENDAR_VIEWS.indexOf(view) - 1]);
+  };
+
+  // Go to the month of today and select it when the mode and constraints allow it
+  const handleTodayClick = () => {
+    showMonth(today);
+    setFocusedDate(today);
+
+    // Month and year views select the period of today
+    if (view !== "day") {
+      const { start, end } = getPeriodBounds(today, view);
+      const isOutOfBounds = (minDate && end < minDate) || (maxDate && start > maxDate);
+      if (view === minView && !disabled && !isOutOfBounds) selectPeriod(start, end);
+      return;
+    }
+
+    if (isRange) {
+      const todayRange = { from: today, to: today };
+      if (isRangeSelectable(todayRange)) selectRange(todayRange);
+      return;
+    }
+    if (disabled || isDayDisabled(today)) return;
+
+    if (mode === "multiple") {
+      const dates = Array.isArray(selectedDate) ? selectedDate : [];
+      if (dates.some((d) => isSameDay(d, today))) return;
+      if (max !== undefined && dates.length >= max) return;
+      setSelectedDate([...dates, today]);
+      emitSelect([...dates, today]);
+    } else {
+      setSelectedDate(today);
+      emitSelect(today);
+    }
+  };
+
+  // Select the range of a preset and display its first month
+  const handlePresetClick = (range: IDateRange) => {
+    selectRange(range);
+    showMonth(range.from);
+  };
+
+  // Range of the days of a week row without the disabled days at its ends,
+  // undefined when the range constraints don't allow selecting it
+  const getWeekRange = (week: ICalendarDay[]): IDateRange | undefined => {
+    const enabledDates = week.map(({ date }) => date).filter((date) => !isDayDisabled(date));
+    if (enabledDates.length === 0) return undefined;
+
+    const range = { from: enabledDates[0], to: enabledDates[enabledDates.length - 1] };
+    return isRangeSelectable(range) ? range : undefined;
+  };
+
+  // Select the days of a week row as a range in range mode
+  const handleWeekNumberClick = (weekNumber: number, week: ICalendarDay[]) => {
+    if (disabled) return;
+    const dates = week.map(({ date }) => date);
+
+    if (isRange) {
+      const range = getWeekRange(week);
+      if (!range) return;
+      selectRange(range);
+    }
+    onWeekNumberClick?.(
+      weekNumber,
+      dates.map((date) => adapter.fromDate(date))
+    );
+  };
+
+  // The only day in the grid reachable with Tab (roving tabindex)
+  const activeDate = useMemo(() => {
+    const candidates = [focusedDate, getFirstSelectedDate(selectedDate), today];
+    const candidate = candidates.find(
+      (date): date is Date => !!date && isDayInView(date) && !isDayDisabled(startOfDay(date))
+    );
+    if (candidate) return startOfDay(candidate);
+
+    const firstEnabledDay = calendarData.months
+      .flatMap(({ weeks }) => weeks.flat())
+      .find(({ date, isOutside }) => !isOutside && !isDayDisabled(date));
+    return firstEnabledDay?.date ?? currentMonth;
+  }, [
+    calendarData.months,
+    currentMonth,
+    focusedDate,
+    isDayDisabled,
+    isDayInView,
+    selectedDate,
+    today,
+  ]);
+
+  // Move focus to a day, skipping disabled days and staying within minDate/maxDate
+  const focusDay = useCallback(
+    (target: Date, direction: 1 | -1) => {
+      const minDay = minDate && startOfDay(minDate);
+      const isOutOfBounds = (date: Date) =>
+        !!((minDay && date < minDay) || (maxDate && date > maxDate));
+
+      let date = target;
+      if (minDay && date < minDay) {
+        date = minDay;
+        direction = 1;
+      }
+      if (maxDate && date > maxDate) {
+        date = startOfDay(maxDate);
+        direction = -1;
+      }
+
+      // Look up to a year ahead for the next enabled day
+      for (let i = 0; i < 366 && isDayDisabled(date); i++) {
+        date = addDays(date, direction);
+        if (isOutOfBounds(date)) return;
+      }
+      if (isDayDisabled(date)) return;
+
+      shouldFocusDay.current = true;
+      setFocusedDate(date);
+
+      // Scroll the displayed months just enough to show the focused day
+      if (!isDayInView(date)) {
+        const newMonth =
+          date < currentMonth
+            ? startOfCalendarMonth(date, calendar)
+            : addCalendarMonths(
+                startOfCalendarMonth(date, calendar),
+                -(numberOfMonths - 1),
+                calendar
+              );
+        changeMonth(newMonth);
+      }
     },
-    [currentMonth, onMonthChange]
+    [
+      calendar,
+      changeMonth,
+      currentMonth,
+      isDayDisabled,
+      isDayInView,
+      maxDate,
+      minDate,
+      numberOfMonths,
+    ]
   );
 
-  // Calculate calendar grid data for the current month
-  const calendarData = useMemo(() => {
-    const daysInMonth = new Date(
-      currentMonth.getFullYear(),
-      currentMonth.getMonth() + 1,
-      0
-    ).getDate();
-    const firstDayOfMonth = new Date(
-      currentMonth.getFullYear(),
-      currentMonth.getMonth(),
-      1
-    ).getDay();
-    const weekdays = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
-
-    // Calculate total cells needed for the grid
-    const totalCells = fixedWeeks
-      ? 42 // Always show 6 weeks
-      : firstDayOfMonth + daysInMonth + ((7 - ((firstDayOfMonth + daysInMonth) % 7)) % 7);
-    const nextMonthDays = totalCells - (firstDayOfMonth + daysInMonth);
+  // Keyboard navigation following the WAI-ARIA date grid pattern
+  const handleDayKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLButtonElement>, date: Date) => {
+      // Horizontal arrows follow the reading direction
+      const [left, right]: (1 | -1)[] = isRtlElement(e.currentTarget) ? [1, -1] : [-1, 1];
 
-    return {
-      daysInMonth,
-      firstDayOfMonth,
-      weekdays,
-      totalCells,
-      nextMonthDays,
+      switch (e.key) {
+        case "ArrowLeft":
+          focusDay(addDays(date, left), left);
+          break;
+        case "ArrowRight":
+          focusDay(addDays(date, right), right);
+          break;
+        case "ArrowUp":
+          focusDay(addDays(date, -7), -1);
+          break;
+        case "ArrowDown":
+          focusDay(addDays(date, 7), 1);
+          break;
+        case "Home":
+          focusDay(startOfWeek(date, weekStartsOn), 1);
+          break;
+        case "End":
+          focusDay(addDays(startOfWeek(date, weekStartsOn), 6), -1);
+          break;
+        case "PageUp":
+          focusDay(
+            e.shiftKey
+              ? addCalendarYears(date, -1, calendar)
+              : addCalendarMonths(date, -1, calendar),
+            -1
+          );
+          break;
+        case "PageDown":
+          focusDay(
+            e.shiftKey ? addCalendarYears(date, 1, calendar) : addCalendarMonths(date, 1, calendar),
+            1
+          );
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    },
+    [calendar, focusDay, weekStartsOn]
+  );
+
+  // Focus the day cell after keyboard navigation has rendered it
+  useEffect(() => {
+    if (!shouldFocusDay.current || !focusedDate) return;
+    shouldFocusDay.current = false;
+    monthsRef.current
+      ?.querySelector<HTMLElement>(`[data-date="${getDayKey(focusedDate)}"]`)
+      ?.focus();
+  }, [currentMonth, focusedDate]);
+
+  const formatMonth = (month: Date) =>
+    month.toLocaleDateString(calendarLocale, { month: "long", year: "numeric" });
+  const monthLabel =
+    numberOfMonths > 1
+      ? `${formatMonth(currentMonth)} – ${formatMonth(addCalendarMonths(currentMonth, numberOfMonths - 1, calendar))}`
+      : formatMonth(currentMonth);
+  // Day of the month in the calendar system, with the digits of the locale
+  const formatDayNumber = (date: Date) =>
+    date.toLocaleDateString(calendarLocale, { day: "numeric" });
+
+  const { Day, Weekday, Caption, NavButton, WeekNumber } = components;
+
+  // State of a day of an adjacent month, which is never interactive
+  const getOutsideDayModifiers = (date: Date): ICalendarDayModifiers => ({
+    ...Object.fromEntries(getDayModifiers(date).map((name) => [name, true])),
+    selected: false,
+    disabled: true,
+    outside: true,
+    rangeStart: false,
+    rangeEnd: false,
+    rangeMiddle: false,
+    previewed: false,
+    blocked: false,
+    focused: false,
+    today: isSameDay(date, today),
+  });
+
+  // Cells of the month view (months of the year) or the year view (decade and adjacent years)
+  const getPeriods = (): ICalendarPeriod[] => {
+    const toPeriod = (date: Date, label: string, ariaLabel: string, outside = false) => {
+      const { start, end } = getPeriodBounds(date, view);
+      return {
+        start,
+        end,
+        label,
+        ariaLabel,
+        outside,
+        selected: isPeriodSelected(start, end),
+        disabled: !!((minDate && end < minDate) || (maxDate && start > maxDate)),
+        today: today >= start && today <= end,
+      };
     };
-  }, [currentMonth, fixedWeeks]);
 
-  // Calculate ISO week number for a given date
-  const getWeekNumber = useCallback((date: Date) => {
-    const firstDayOfYear = new Date(date.getFullYear(), 0, 1);
-    const pastDaysOfYear = (date.getTime() - firstDayOfYear.getTime()) / 86400000;
-    return Math.ceil((pastDaysOfYear + firstDayOfYear.getDay() + 1) / 7);
-  }, []);
+    if (view === "month") {
+      return yearMonths.map((month) =>
+        toPeriod(
+          month,
+          month.toLocaleDateString(calendarLocale, { month: "short" }),
+          formatMonth(month)
+        )
+      );
+    }
+    return Array.from({ length: 12 }).map((_, i) => {
+      const year = decadeStart - 1 + i;
+      const yearStart = getCalendarMonth(year, 0, calendar, currentMonth);
+      return toPeriod(yearStart, formatYear(year), formatYear(year), i === 0 || i === 11);
+    });
+  };
+
+  // Check whether the page reached by navigating overlaps minDate/maxDate
+  const canNavigate = (increment: number) => {
+    let from: Date;
+    let to: Date;
+    if (view === "day") {
+      from = addCalendarMonths(
+        currentMonth,
+        increment * (pagedNavigation ? numberOfMonths : 1),
+        calendar
+      );
+      to = addDays(addCalendarMonths(from, numberOfMonths, calendar), -1);
+    } else {
+      const years = view === "month" ? 1 : 10;
+      const fromYear = (view === "month" ? currentYear : decadeStart) + increment * years;
+      from = getCalendarMonth(fromYear, 0, calendar, currentMonth);
+      to = addDays(getCalendarMonth(fromYear + years, 0, calendar, currentMonth), -1);
+    }
+    return !((minDate && to < minDate) || (maxDate && from > maxDate));
+  };
+
+  // Navigate by a month in the day view, a year in the month view or a decade in the year view
+  const handleNavigate = (increment: number) => {
+    if (view === "day") {
+      handleMonthChange(increment);
+      return;
+    }
+    const newMonth = addCalendarYears(
+      currentMonth,
+      increment * (view === "month" ? 1 : 10),
+      calendar
+    );
+    changeMonth(newMonth);
+  };
 
-  // Render the calendar grid with days, week numbers, and outside days
-  const renderCalendarGrid = useCallback(() => {
-    const { daysInMonth, firstDayOfMonth, weekdays, totalCells, nextMonthDays } = calendarData;
+  const yearLabel = formatYear(currentYear);
+  const decadeLabel = `${formatYear(decadeStart)} – ${formatYear(decadeStart + 9)}`;
+  const navUnit = { day: "month", month: "year", year: "decade" }[view];
+
+  // Render the previous or next page button
+  const renderNavButton = (direction: ICalendarNavButtonProps["direction"]) => {
+    const increment = direction === "previous" ? -1 : 1;
+    const buttonProps: Omit<ICalendarNavButtonProps, "direction"> = {
+      "aria-label": direction === "previous" ? `Previous ${navUnit}` : `Next ${navUnit}`,
+      onClick: () => handleNavigate(increment),
+      disabled: disabled || !canNavigate(increment),
+      className: cn(
+        "p-2 hover:bg-gray-100/80 rounded-full transition-all duration-300",
+        "border-0 shadow-sm hover:shadow-md",
+        "hover:scale-110 cursor-pointer",
+        "hover:bg-gradient-to-br hover:from-gray-50 hover:to-gray-100",
+        direction === "previous" ? classNames?.prevButton : classNames?.nextButton
+      ),
+    };
+
+    if (NavButton) return <NavButton direction={direction} {...buttonProps} />;
 
     return (
-      <div className="grid grid-cols-[auto,1fr] gap-2">
-        {/* Week numbers column */}
-        {showWeekNumbers && (
-          <div className="flex justify-around text-xs text-gray-400">
-            {Array.from({ length: Math.ceil(totalCells / 7) }).map((_, weekIndex) => {
-              const weekDate = new Date(
-                currentMonth.getFullYear(),
-                currentMonth.getMonth(),
-                weekIndex * 7 + 1
-              );
-              return (
-                <div key={`week-${weekIndex}`} className="h-9 flex items-center justify-center">
-                  {getWeekNumber(weekDate)}
-                </div>
-              );
-            })}
+      <Button variant="outline" size="sm" {...buttonProps}>
+        {/* Arrows point the other way in RTL, where the previous month is on the right */}
+        <span className="inline-block rtl:-scale-x-100">
+          {direction === "previous" ? "←" : "→"}
+        </span>
+      </Button>
+    );
+  };
+
+  // Render the week number cell of a row, clickable when onWeekNumberClick is set
+  const renderWeekNumber = (week: ICalendarDay[]) => {
+    const weekNumber = getRowWeekNumber(week);
+    const content = WeekNumber ? <WeekNumber weekNumber={weekNumber} week={week} /> : weekNumber;
+
+    return (
+      <div
+        role="rowheader"
+        aria-label={`Week ${weekNumber}`}
+        className={cn(
+          "h-9 flex items-center justify-center text-xs text-gray-400",
+          classNames?.weekNumber
+        )}
+      >
+        {onWeekNumberClick ? (
+          <Button
+            variant="outline"
+            size="sm"
+            className={cn(
+              "h-9 w-9 p-0 border-0 text-xs text-gray-500",
+              "transition-all duration-300 cursor-pointer",
+              "hover:bg-gradient-to-br hover:from-gray-50 hover:to-gray-100"
+            )}
+            disabled={disabled || (isRange && !getWeekRange(week))}
+            aria-label={`Week ${weekNumber}`}
+            onClick={() => handleWeekNumberClick(weekNumber, week)}
+          >
+            {content}
+          </Button>
+        ) : (
+          content
+        )}
+      </div>
+    );
+  };
+
+  // Render the grid of a month with days, week numbers, and outside days
+  const renderCalendarGrid = ({ month, weeks }: ICalendarMonth) => {
+    const { weekdays } = calendarData;
+    const rowClassName = cn("grid gap-1", showWeekNumbers ? "grid-cols-8" : "grid-cols-7");
+
+    return (
+      <div key={getDayKey(month)} className="flex flex-col">
+        {/* Month caption when several months are displayed */}
+        {numberOfMonths > 1 && (
+          <div aria-hidden="true" className="text-center text-sm font-medium text-gray-700 pb-1">
+            {Caption ? <Caption month={month} label={formatMonth(month)} /> : formatMonth(month)}
           </div>
         )}
         {/* Main calendar grid */}
         <div
-          className={cn("grid grid-cols-7 gap-1", showWeekNumbers ? "col-span-1" : "col-span-1")}
+          role="grid"
+          aria-label={formatMonth(month)}
+          className={cn("flex flex-col gap-1", classNames?.view)}
         >
           {/* Weekday headers */}
-          {weekdays.map((day) => (
-            <div
-              key={day}
-              className={cn(
-                "text-center text-xs font-medium text-gray-500 py-2",
-                classNames?.weekday
-              )}
-            >
-              {day.slice(0, 3)}
-            </div>
-          ))}
-          {/* Previous month's days */}
-          {showOutsideDays &&
-            Array.from({ length: firstDayOfMonth }).map((_, i) => {
-              const prevMonthDate = new Date(
-                currentMonth.getFullYear(),
-                currentMonth.getMonth(),
-                -i
-              );
-              const day = prevMonthDate.getDate();
-              return (
-                <Button
-                  key={`prev-${i}`}
-                  variant="outline"
-                  size="sm"
-                  className={cn(
-                    "h-9 w-9 p-0",
-                    "text-gray-300",
-                    "border-0",
-                    "hover:bg-gray-50/50",
-                    "transition-all duration-300",
-                    "cursor-default",
-                    classNames?.emptyDay
-                  )}
-                  disabled={true}
-                >
-                  {day}
-                </Button>
-              );
-            })}
-          {/* Current month's days */}
-          {Array.from({ length: daysInMonth }).map((_, i) => {
-            const date = new Date(currentMonth.getFullYear(), currentMonth.getMonth(), i + 1);
-            const isSelected =
-              selectedDate instanceof Date
-                ? selectedDate.getTime() === date.getTime()
-                : isDateInRange(date);
-            const isStart = isDateRangeStart(date);
-            const isEnd = isDateRangeEnd(date);
-            const isDisabled =
-              disabledDays?.some((d: Date) => d.getTime() === date.getTime()) ||
-              (minDate && date < minDate) ||
-              (maxDate && date > maxDate);
-
-            return (
-              <Button
-                key={i}
-                variant={isSelected ? "primary" : "outline"}
-                size="sm"
+          <div role="row" className={rowClassName}>
+            {showWeekNumbers && (
+              <div
+                role="columnheader"
+                aria-label="Week"
+                className={cn("text-center text-xs text-gray-400 py-2", classNames?.weekNumber)}
+              >
+                #
+              </div>
+            )}
+            {weekdays.map((weekday) => (
+              <div
+                key={weekday.day}
+                role="columnheader"
+                aria-label={weekday.longName}
                 className={cn(
-                  "h-9 w-9 p-0",
-                  "border-0",
-                  "transition-all duration-300",
-                  "hover:scale-110",
-                  "cursor-pointer",
-                  {
-                    "bg-gradient-to-br from-blue-500 to-blue-600 text-white shadow-md":
-                      (isSelected && !enableRange) || isStart || isEnd,
-                    "bg-blue-100/80": enableRange && isDateInRange(date) && !isStart && !isEnd,
-                    "rounded-l-full": enableRange && isStart,
-                    "rounded-r-full": enableRange && isEnd,
-                    "hover:bg-gradient-to-br hover:from-gray-50 hover:to-gray-100":
-                      !isSelected && !isDisabled,
-                    "opacity-30": isDisabled,
-                    "hover:shadow-md": !isDisabled,
-                  },
-                  classNames?.day
+                  "text-center text-xs font-medium text-gray-500 py-2",
+                  classNames?.weekday
                 )}
-                disabled={isDisabled || disabled}
-                onClick={() => handleDateClick(date)}
               >
-                {i + 1}
-              </Button>
-            );
-          })}
-          {/* Next month's days */}
-          {showOutsideDays &&
-            Array.from({ length: nextMonthDays }).map((_, i) => {
-              const nextMonthDate = new Date(
-                currentMonth.getFullYear(),
-                currentMonth.getMonth() + 1,
-                i + 1
-              );
-              const day = nextMonthDate.getDate();
-              return (
-                <Button
-                  key={`next-${i}`}
-                  variant="outline"
-                  size="sm"
-                  className={cn(
-                    "h-9 w-9 p-0",
-                    "text-gray-300",
-                    "border-0",
-                    "hover:bg-gray-50/50",
-                    "transition-all duration-300",
-                    "cursor-default",
-                    classNames?.emptyDay
-                  )}
-                  disabled={true}
-                >
-                  {day}
-                </Button>
-              );
-            })}
+                {Weekday ? <Weekday weekday={weekday} /> : weekday.shortName}
+              </div>
+            ))}
+          </div>
+          {weeks.map((week, weekIndex) => (
+            <div key={`week-${weekIndex}`} role="row" className={rowClassName}>
+              {/* Week number of the row */}
+              {showWeekNumbers && renderWeekNumber(week)}
+              {week.map(({ date, isOutside }) => {
+                // Previous and next month's days
+                if (isOutside) {
+                  return (
+                    <div key={getDayKey(date)} role="gridcell">
+                      {showOutsideDays && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className={cn(
+                            "h-9 w-9 p-0",
+                            "text-gray-300",
+                            "border-0",
+                            "hover:bg-gray-50/50",
+                            "transition-all duration-300",
+                            "cursor-default",
+                            classNames?.emptyDay
+                          )}
+                          disabled={true}
+                          tabIndex={-1}
+                        >
+                          {Day ? (
+                            <Day date={date} modifiers={getOutsideDayModifiers(date)} />
+                          ) : (
+                            formatDayNumber(date)
+                          )}
+                        </Button>
+                      )}
+                    </div>
+                  );
+                }
+
+                // Current month's days
+                const isSelected = isDateSelected(date);
+                const isStart = isDateRangeStart(date);
+                const isEnd = isDateRangeEnd(date);
+                const isDisabled = isDayDisabled(date);
+                const isBlocked = !isDisabled && isRangeBlocked(date);
+                const isToday = isSameDay(date, today);
+                const isPreviewed =
+                  !!previewRange &&
+                  !isSelected &&
+                  date >= previewRange.from &&
+                  date <= previewRange.to;
+                const customModifiers = getDayModifiers(date);
+                const modifiers: ICalendarDayModifiers = {
+                  ...Object.fromEntries(customModifiers.map((name) => [name, true])),
+                  selected: isSelected,
+                  disabled: isDisabled,
+                  outside: false,
+                  rangeStart: isRange && isStart,
+                  rangeEnd: isRange && isEnd,
+                  rangeMiddle: isRange && isSelected && !isStart && !isEnd,
+                  previewed: isPreviewed,
+                  blocked: isBlocked,
+                  focused: isSameDay(date, activeDate),
+                  today: isToday,
+                };
+                const dayLabel = [
+                  date.toLocaleDateString(calendarLocale, {
+                    weekday: "long",
+                    year: "numeric",
+                    month: "long",
+                    day: "numeric",
+                  }),
+                  ...customModifiers.map((name) => modifiersLabels?.[name]).filter(Boolean),
+                ].join(", ");
+
+                return (
+                  <div key={getDayKey(date)} role="gridcell" aria-selected={isSelected}>
+                    <Button
+                      variant={isSelected ? "primary" : "outline"}
+                      size="sm"
+                      className={cn(
+                        "h-9 w-9 p-0",
+                        "border-0",
+                        "transition-all duration-300",
+                        "hover:scale-110",
+                        "cursor-pointer",
+                        {
+                          "bg-gradient-to-br from-blue-500 to-blue-600 text-white shadow-md":
+                            (isSelected && !isRange) || isStart || isEnd,
+                          "bg-blue-100/80": isRange && isSelected && !isStart && !isEnd,
+                          "rounded-s-full": isRange && isStart,
+                          "rounded-e-full": isRange && isEnd,
+                          "bg-blue-50 text-blue-700": isPreviewed,
+                          "font-semibold text-blue-600": isToday && !isSelected,
+                          "hover:bg-gradient-to-br hover:from-gray-50 hover:to-gray-100":
+                            !isSelected && !isDisabled && !isBlocked,
+                          "opacity-30": isDisabled || isBlocked,
+                          "cursor-not-allowed hover:scale-100": isBlocked,
+                          "hover:shadow-md": !isDisabled && !isBlocked,
+                        },
+                        classNames?.day,
+                        isToday && classNames?.today,
+                        customModifiers.map((name) => modifiersClassNames?.[name])
+                      )}
+                      {...Object.fromEntries(customModifiers.map((name) => [`data-${name}`, true]))}
+                      disabled={isDisabled || disabled}
+                      aria-disabled={isBlocked || undefined}
+                      aria-current={isToday ? "date" : undefined}
+                      tabIndex={modifiers.focused ? 0 : -1}
+                      data-date={getDayKey(date)}
+                      data-range-preview={isPreviewed || undefined}
+                      aria-label={dayLabel}
+                      onClick={() => handleDateClick(date)}
+                      onKeyDown={(e) => handleDayKeyDown(e, date)}
+                      onMouseEnter={() => rangeStart && setHoveredDate(date)}
+                      onFocus={() => rangeStart && setHoveredDate(date)}
+                    >
+                      {Day ? <Day date={date} modifiers={modifiers} /> : formatDayNumber(date)}
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          ))}
         </div>
       </div>
     );
-  }, [
-    calendarData,
-    classNames,
-    currentMonth,
-    disabled,
-    disabledDays,
-    enableRange,
-    getWeekNumber,
-    handleDateClick,
-    isDateInRange,
-    isDateRangeEnd,
-    isDateRangeStart,
-    maxDate,
-    minDate,
-    selectedDate,
-    showOutsideDays,
-    showWeekNumbers,
-  ]);
+  };
+
+  // Render a preset button, pressed while its range is selected
+  const renderPreset = (preset: ICalendarPreset) => {
+    const range = preset.getRange(today, calendar);
+    const isActive =
+      !rangeStart &&
+      isDateRange(selectedDate) &&
+      isSameDay(selectedDate.from, range.from) &&
+      isSameDay(selectedDate.to, range.to);
+
+    return (
+      <Button
+        key={preset.label}
+        variant={isActive ? "primary" : "outline"}
+        size="sm"
+        aria-pressed={isActive}
+        disabled={!isRangeSelectable(range)}
+        onClick={() => handlePresetClick(range)}
+      >
+        {preset.label}
+      </Button>
+    );
+  };
+
+  // Render the title, which zooms out to the next view when there is one
+  const renderTitle = () => {
+    const className = cn("font-semibold text-lg text-gray-800", classNames?.title);
+    const label = { day: monthLabel, month: yearLabel, year: decadeLabel }[view];
+    const content =
+      view === "day" && Caption ? <Caption month={currentMonth} label={monthLabel} /> : label;
+
+    if (view === "year") return <span className={className}>{content}</span>;
+
+    const nextView = CALENDAR_VIEWS[CALENDAR_VIEWS.indexOf(view) + 1];
+    return (
+      <Button
+        variant="outline"
+        size="sm"
+        className={cn(
+          "px-3 py-1 border-0 rounded-md cursor-pointer transition-all duration-300",
+          "hover:bg-gradient-to-br hover:from-gray-50 hover:to-gray-100",
+          className
+        )}
+        aria-label={`${label}, choose ${nextView}`}
+        disabled={disabled}
+        onClick={() => changeView(nextView)}
+      >
+        {content}
+      </Button>
+    );
+  };
+
+  // Dropdowns only apply to the day view, the other views page with buttons
+  const showNavButtons = view !== "day" || captionLayout !== "dropdown";
+  const showDropdowns = view === "day" && captionLayout !== "buttons";
 
   return (
     <>
       {/* Month navigation header */}
-      <div className="flex items-center justify-between mb-6">
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={() => handleMonthChange(-1)}
-          className={cn(
-            "p-2 hover:bg-gray-100/80 rounded-full transition-all duration-300",
-            "border-0 shadow-sm hover:shadow-md",
-            "hover:scale-110 cursor-pointer",
-            "hover:bg-gradient-to-br hover:from-gray-50 hover:to-gray-100",
-            classNames?.prevButton
-          )}
-          aria-label="Previous month"
+      <div dir={dir} className={cn("flex items-center justify-between mb-6", classNames?.header)}>
+        {showNavButtons && renderNavButton("previous")}
+        {showDropdowns ? (
+          <div className={cn("flex items-center gap-1", !showNavButtons && "mx-auto")}>
+            <CalendarSelect
+              aria-label="Month"
+              value={currentMonthIndex}
+              options={monthOptions}
+              onValueChange={(month) => handleMonthSelect(currentYear, month)}
+              className={classNames?.monthSelect}
+              classNames={classNames}
+              disabled={disabled}
+            />
+            <CalendarSelect
+              aria-label="Year"
+              value={currentYear}
+              options={yearOptions}
+              onValueChange={(year) => handleMonthSelect(year, currentMonthIndex)}
+              className={classNames?.yearSelect}
+              classNames={classNames}
+              disabled={disabled}
+            />
+          </div>
+        ) : (
+          renderTitle()
+        )}
+        {showNavButtons && renderNavButton("next")}
+      </div>
+      {view === "day" ? (
+        <div
+          ref={monthsRef}
+          dir={dir}
+          className="flex flex-wrap gap-6"
+          onMouseLeave={() => setHoveredDate(null)}
         >
-          ←
-        </Button>
-        <span className={cn("font-semibold text-lg text-gray-800", classNames?.title)}>
-          {currentMonth.toLocaleDateString(locale, { month: "long", year: "numeric" })}
-        </span>
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={() => handleMonthChange(1)}
+          {calendarData.months.map(renderCalendarGrid)}
+        </div>
+      ) : (
+        <div dir={dir} className="min-w-64">
+          <CalendarPeriodGrid
+            key={`${view}-${view === "month" ? currentYear : decadeStart}`}
+            aria-label={view === "month" ? yearLabel : decadeLabel}
+            periods={getPeriods()}
+            onSelect={handlePeriodSelect}
+            disabled={disabled}
+            classNames={classNames}
+          />
+        </div>
+      )}
+      {/* Footer with the today button and the range presets */}
+      {(showTodayButton || !!presets?.length) && (
+        <div
+          dir={dir}
           className={cn(
-            "p-2 hover:bg-gray-100/80 rounded-full transition-all duration-300",
-            "border-0 shadow-sm hover:shadow-md",
-            "hover:scale-110 cursor-pointer",
-            "hover:bg-gradient-to-br hover:from-gray-50 hover:to-gray-100",
-            classNames?.nextButton
+            "flex flex-wrap items-center gap-2 mt-4 pt-4 border-t border-gray-100",
+            classNames?.footer
           )}
-          aria-label="Next month"
         >
-          →
-        </Button>
-      </div>
-      {renderCalendarGrid()}
+          {showTodayButton && (
+            <Button variant="outline" size="sm" disabled={disabled} onClick={handleTodayClick}>
+              Today
+            </Button>
+          )}
+          {presets?.map(renderPreset)}
+        </div>
+      )}
     </>
   );
 };
@@ -0,0 +1,138 @@
+/**
+ * Calendar Date Adapters
+ *
+ * This module contains the date adapters of the Calendar component, letting callers
+ * pass and receive the date type of their codebase. The Temporal and Luxon adapters
+ * take the library as an argument, so neither is a dependency of this package.
+ */
+
+import type { IDateAdapter } from "../types";
+import { differenceInDays, fromCalendarDay, toCalendarDay } from "../utils";
+
+/**
+ * Creates the adapter of native `Date`s, also used with date-fns.
+ * Dates are the first instants of their days in the time zone.
+ *
+ * @param timeZone - IANA time zone of the dates, defaults to the local zone
+ * @returns The native date adapter
+ */
+export const createNativeAdapter = (timeZone?: string): IDateAdapter<Date> => {
+  const toDate = (value: Date) => toCalendarDay(value, timeZone);
+  const fromDate = (date: Date) => fromCalendarDay(date, timeZone);
+
+  return {
+    toDate,
+    fromDate,
+    compare: (a, b) => differenceInDays(toDate(a), toDate(b)),
+    format: (value, locale, options) => value.toLocaleDateString(locale, { timeZone, ...options }),
+  };
+};
+
+/**
+ * Parts of `Temporal.PlainDate` used by the Temporal adapter
+ */
+export interface ITemporalPlainDate {
+  readonly year: number;
+  readonly month: number;
+  readonly day: number;
+  toLocaleString(locale?: string, options?: Intl.DateTimeFormatOptions): string;
+}
+
+/**
+ * Parts of the `Temporal` namespace used by the Temporal adapter
+ */
+export interface ITemporal<TPlainDate> {
+  PlainDate: {
+    from(item: { year: number; month: number; day: number }): TPlainDate;
+    compare(a: TPlainDate, b: TPlainDate): number;
+  };
+}
+
+/**
+ * Creates the adapter of `Temporal.PlainDate`s, from the native API or a polyfill.
+ *
+ * @param Temporal - The `Temporal` namespace
+ * @returns The Temporal adapter
+ *
+ * @example
+ * ```tsx
+ * import { Temporal } from "@js-temporal/polyfill";
+ *
+ * const temporalAdapter = createTemporalAdapter(Temporal);
+ *
+ * <Calendar dateAdapter={temporalAdapter} selected={plainDate} onSelect={setPlainDate} />
+ * ```
+ */
+export const createTemporalAdapter = <TPlainDate extends ITemporalPlainDate>(
+  Temporal: ITemporal<TPlainDate>
+): IDateAdapter<TPlainDate> => ({
+  toDate: ({ year, month, day }) => new Date(year, month - 1, day),
+  fromDate: (date) =>
+    Temporal.PlainDate.from({
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+    }),
+  compare: (a, b) => Temporal.PlainDate.compare(a, b),
+  format: (value, locale, options) => value.toLocaleString(locale, options),
+});
+
+/**
+ * Parts of Luxon's `DateTime` used by the Luxon adapter
+ */
+export interface ILuxonDateTime {
+  readonly year: number;
+  readonly month: number;
+  readonly day: number;
+  toLocaleString(format?: Intl.DateTimeFormatOptions, options?: { locale?: string }): string;
+}
+
+/**
+ * Static parts of Luxon's `DateTime` class used by the Luxon adapter
+ */
+export interface ILuxonDateTimeClass<TDateTime> {
+  fromObject(
+    values: { year: number; month: number; day: number },
+    options?: { zone?: string }
+  ): TDateTime;
+}
+
+/**
+ * Creates the adapter of Luxon `DateTime`s. Dates belong to the day of their own zone.
+ *
+ * @param DateTime - Luxon's `DateTime` class
+ * @param options - Zone of the emitted dates, defaults to Luxon's default zone
+ * @returns The Luxon adapter
+ *
+ * @example
+ * ```tsx
+ * import { DateTime } from "luxon";
+ *
+ * const luxonAdapter = createLuxonAdapter(DateTime, { zone: "Europe/Paris" });
+ * ```
+ */
+export const createLuxonAdapter = <TDateTime extends ILuxonDateTime>(
+  DateTime: ILuxonDateTimeClass<TDateTime>,
+  { zone }: { zone?: string } = {}
+): IDateAdapter<TDateTime> => ({
+  toDate: ({ year, month, day }) => new Date(year, month - 1, day),
+  fromDate: (date) =>
+    DateTime.fromObject(
+      { year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate() },
+      { zone }
+    ),
+  compare: (a, b) => a.year - b.year || a.month - b.month || a.day - b.day,
+  format: (value, locale, options) => value.toLocaleString(options, { locale }),
+});
+
+/**
+ * Returns the adapter of the date type used by a component, native `Date`s by default.
+ * The native adapter is typed as `TDate`, which defaults to `Date` without an adapter.
+ *
+ * @param dateAdapter - Adapter passed to the component
+ * @param timeZone - Time zone of the native dates
+ * @returns The date adapter
+ */
+export const getDateAdapter = <TDate>(dateAdapter?: IDateAdapter<TDate>, timeZone?: string) => {
+  return dateAdapter ?? (createNativeAdapter(timeZone) as unknown as IDateAdapter<TDate>);
+};
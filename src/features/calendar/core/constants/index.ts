@@ -0,0 +1,90 @@
+/**
+ * Calendar Component Constants
+ *
+ * This module contains the views and the predefined range presets of the Calendar
+ * component. Ranges of the current period end today, so they stay selectable with
+ * `maxDate={new Date()}`, and follow the calendar system of the calendar.
+ */
+
+import type { ICalendarPreset, TCalendarView } from "../types";
+import {
+  addCalendarMonths,
+  addCalendarYears,
+  addDays,
+  getCalendarYearMonths,
+  startOfCalendarMonth,
+  startOfCalendarQuarter,
+} from "../utils";
+
+/**
+ * Calendar Views
+ *
+ * Zoom levels of the calendar, from the most to the least detailed.
+ *
+ * @constant
+ * @type {TCalendarView[]}
+ */
+export const CALENDAR_VIEWS: TCalendarView[] = ["day", "month", "year"];
+
+/**
+ * Calendar Presets
+ *
+ * Common ranges for analytics and reporting, passed to the `presets` prop in range mode.
+ *
+ * @constant
+ * @type {Record<string, ICalendarPreset>}
+ */
+export const CALENDAR_PRESETS = {
+  today: {
+    label: "Today",
+    getRange: (today) => ({ from: today, to: today }),
+  },
+  yesterday: {
+    label: "Yesterday",
+    getRange: (today) => ({ from: addDays(today, -1), to: addDays(today, -1) }),
+  },
+  last7Days: {
+    label: "Last 7 days",
+    getRange: (today) => ({ from: addDays(today, -6), to: today }),
+  },
+  last30Days: {
+    label: "Last 30 days",
+    getRange: (today) => ({ from: addDays(today, -29), to: today }),
+  },
+  thisMonth: {
+    label: "This month",
+    getRange: (today, calendar) => ({ from: startOfCalendarMonth(today, calendar), to: today }),
+  },
+  lastMonth: {
+    label: "Last month",
+    getRange: (today, calendar) => {
+      const monthStart = startOfCalendarMonth(today, calendar);
+      return { from: addCalendarMonths(monthStart, -1, calendar), to: addDays(monthStart, -1) };
+    },
+  },
+  thisQuarter: {
+    label: "This quarter",
+    getRange: (today, calendar) => ({ from: startOfCalendarQuarter(today, calendar), to: today }),
+  },
+  lastQuarter: {
+    label: "Last quarter",
+    getRange: (today, calendar) => {
+      const quarterStart = startOfCalendarQuarter(today, calendar);
+      return {
+        from: startOfCalendarQuarter(addDays(quarterStart, -1), calendar),
+        to: addDays(quarterStart, -1),
+      };
+    },
+  },
+  thisYear: {
+    label: "This year",
+    getRange: (today, calendar) => ({ from: getCalendarYearMonths(today, calendar)[0], to: today }),
+  },
+  lastYear: {
+    label: "Last year",
+    getRange: (today, calendar) => {
+      const yearStart = getCalendarYearMonths(today, calendar)[0];
+      return { from: addCalendarYears(yearStart, -1, calendar), to: addDays(yearStart, -1) };
+    },
+  },
+} satisfies Record<string, ICalendarPreset>;
@@ -6,6 +6,8 @@
  * The types are designed to be extensible while maintaining strict type checking.
  */
 
+import type { ComponentType } from "react";
+
 /**
  * Custom class names for styling different parts of the calendar component.
  * Provides granular control over the appearance of each calendar element.
@@ -33,6 +35,12 @@ export interface ICalendarClasses {
   day?: string;
   /** Empty day cells (outside current month) */
   emptyDay?: string;
+  /** Day cell of today */
+  today?: string;
+  /** Week number cells */
+  weekNumber?: string;
+  /** Month and year cells of the month and year views */
+  period?: string;
   /** Month selection dropdown */
   monthSelect?: string;
   /** Year selection dropdown */
@@ -47,53 +55,507 @@ export interface ICalendarClasses {
   selectItemText?: string;
   /** Selection indicator for dropdown items */
   selectItemIndicator?: string;
+  /** Footer containing the today button and the presets */
+  footer?: string;
 }
 
 /**
  * Date range interface for calendar selection
  */
-export interface IDateRange {
+export interface IDateRange<TDate = Date> {
   /** Start date of the range */
-  from: Date;
+  from: TDate;
   /** End date of the range */
-  to: Date;
+  to: TDate;
+}
+
+/**
+ * Selection mode of the calendar.
+ * - `single`: one date
+ * - `multiple`: any set of independent dates
+ * - `range`: a continuous date range
+ */
+export type TCalendarMode = "single" | "multiple" | "range";
+
+/**
+ * Type representing a selected date, a set of dates or a date range
+ */
+export type SelectedDate<TDate = Date> = TDate | TDate[] | IDateRange<TDate> | undefined;
+
+/**
+ * Converts the dates of a date library from and to calendar days, and compares
+ * and formats them for display. Calendar days are native `Date`s at local midnight.
+ */
+export interface IDateAdapter<TDate> {
+  /** Returns the calendar day of a date */
+  toDate: (value: TDate) => Date;
+  /** Returns the date of a calendar day */
+  fromDate: (date: Date) => TDate;
+  /** Compares the days of two dates, negative when `a` is before `b` and 0 on the same day */
+  compare: (a: TDate, b: TDate) => number;
+  /** Formats a date for display */
+  format: (value: TDate, locale: string, options?: Intl.DateTimeFormatOptions) => string;
+}
+
+/**
+ * Calendar system defining months, years and their names.
+ * - `gregory`: Gregorian calendar
+ * - `persian`: Solar Hijri calendar
+ * - `islamic-umalqura` / `islamic-civil`: Hijri calendars
+ * - `hebrew`: Hebrew calendar, with 13 months in leap years
+ * - `buddhist`: Thai solar calendar
+ */
+export type TCalendarSystem =
+  | "gregory"
+  | "persian"
+  | "islamic-umalqura"
+  | "islamic-civil"
+  | "hebrew"
+  | "buddhist";
+
+/**
+ * Zoom level of the calendar.
+ * - `day`: days of the displayed months
+ * - `month`: months of a year
+ * - `year`: years of a decade
+ */
+export type TCalendarView = "day" | "month" | "year";
+
+/**
+ * Index of a day of the week, where 0 is Sunday and 6 is Saturday
+ */
+export type TWeekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+/**
+ * Rules used to number the weeks of the year.
+ * - `iso`: ISO-8601 weeks, starting on Monday, with week 1 containing January 4
+ * - `locale`: weeks of the locale, starting on `weekStartsOn`
+ */
+export type TWeekNumbering = "iso" | "locale";
+
+/**
+ * Matches days before a date (exclusive)
+ */
+export interface IDateBefore<TDate = Date> {
+  before: TDate;
+}
+
+/**
+ * Matches days after a date (exclusive)
+ */
+export interface IDateAfter<TDate = Date> {
+  after: TDate;
+}
+
+/**
+ * Matches days between two dates (exclusive)
+ */
+export interface IDateInterval<TDate = Date> {
+  after: TDate;
+  before: TDate;
+}
+
+/**
+ * Matches days of the week, e.g. `{ dayOfWeek: [0, 6] }` for weekends
+ */
+export interface IDayOfWeek {
+  dayOfWeek: TWeekday[];
+}
+
+/**
+ * Rule matching calendar days, used to disable days and to apply modifiers.
+ * Dates are compared by calendar day, ignoring their time of day.
+ *
+ * - `boolean`: matches every day or none
+ * - `Date` / `Date[]`: matches the given days
+ * - `IDateRange`: matches the days from `from` to `to` (inclusive)
+ * - `IDateBefore` / `IDateAfter` / `IDateInterval`: matches days before, after or between dates
+ * - `IDayOfWeek`: matches days of the week
+ * - function: matches the days for which it returns `true`
+ */
+export type TDateMatcher<TDate = Date> =
+  | boolean
+  | TDate
+  | TDate[]
+  | IDateRange<TDate>
+  | IDateBefore<TDate>
+  | IDateAfter<TDate>
+  | IDateInterval<TDate>
+  | IDayOfWeek
+  | ((date: TDate) => boolean);
+
+/**
+ * Weekday shown in the calendar header
+ */
+export interface ICalendarWeekday {
+  /** Index of the day of the week (0 = Sunday) */
+  day: TWeekday;
+  /** Abbreviated name, e.g. "Mon" */
+  shortName: string;
+  /** Full name, e.g. "Monday" */
+  longName: string;
+}
+
+/**
+ * Cell of the calendar grid
+ */
+export interface ICalendarDay {
+  /** Calendar day of the cell */
+  date: Date;
+  /** Whether the day belongs to an adjacent month */
+  isOutside: boolean;
+}
+
+/**
+ * Month rendered by the calendar
+ */
+export interface ICalendarMonth {
+  /** First day of the month */
+  month: Date;
+  /** Week rows of the month grid */
+  weeks: ICalendarDay[][];
+}
+
+/**
+ * Shortcut selecting a predefined range, e.g. "Last 7 days"
+ */
+export interface ICalendarPreset {
+  /** Label of the preset button */
+  label: string;
+  /**
+   * Returns the range of the preset
+   * @param today - Today as a calendar day
+   * @param calendar - Calendar system of the calendar
+   */
+  getRange: (today: Date, calendar: TCalendarSystem) => IDateRange;
+}
+
+/**
+ * Layout of the calendar caption.
+ * - `buttons`: month title with previous/next buttons
+ * - `dropdown`: month and year dropdowns
+ * - `dropdown-buttons`: month and year dropdowns with previous/next buttons
+ */
+export type TCaptionLayout = "buttons" | "dropdown" | "dropdown-buttons";
+
+/**
+ * Option rendered in a calendar caption dropdown
+ */
+export interface ICalendarSelectOption {
+  /** Numeric value of the option (month index or year) */
+  value: number;
+  /** Display label of the option */
+  label: string;
+  /** Whether the option can't be selected */
+  disabled?: boolean;
+}
+
+/**
+ * Calendar caption dropdown props interface
+ */
+export interface ICalendarSelectProps {
+  /** Currently selected value */
+  value: number;
+  /** Available options */
+  options: ICalendarSelectOption[];
+  /** Callback when an option is selected */
+  onValueChange: (value: number) => void;
+  /** Accessible label of the dropdown */
+  "aria-label": string;
+  /** Class name applied to the dropdown root */
+  className?: string;
+  /** Custom class names for the dropdown parts */
+  classNames?: ICalendarClasses;
+  /** Whether the dropdown is disabled */
+  disabled?: boolean;
+}
+
+/**
+ * Month or year cell of the month and year views
+ */
+export interface ICalendarPeriod {
+  /** First day of the period */
+  start: Date;
+  /** Last day of the period */
+  end: Date;
+  /** Label shown in the cell, e.g. "May" */
+  label: string;
+  /** Accessible label of the cell, e.g. "May 2024" */
+  ariaLabel: string;
+  /** Whether the period contains a selected date */
+  selected: boolean;
+  /** Whether the period lies outside of minDate/maxDate */
+  disabled: boolean;
+  /** Whether the period contains today */
+  today: boolean;
+  /** Whether the period belongs to an adjacent decade */
+  outside: boolean;
+}
+
+/**
+ * Month and year grid props interface
+ */
+export interface ICalendarPeriodGridProps {
+  /** Accessible label of the grid */
+  "aria-label": string;
+  /** Cells of the grid, in reading order */
+  periods: ICalendarPeriod[];
+  /** Callback when a cell is picked */
+  onSelect: (period: ICalendarPeriod) => void;
+  /** Whether the calendar is disabled */
+  disabled?: boolean;
+  /** Custom class names for the grid parts */
+  classNames?: ICalendarClasses;
+}
+
+/**
+ * State of a day cell. Includes the built-in states and the names of
+ * the custom `modifiers` matching the day.
+ */
+export interface ICalendarDayModifiers {
+  /** Whether the day is selected */
+  selected: boolean;
+  /** Whether the day can't be selected */
+  disabled: boolean;
+  /** Whether the day belongs to an adjacent month */
+  outside: boolean;
+  /** Whether the day starts the selected range */
+  rangeStart: boolean;
+  /** Whether the day ends the selected range */
+  rangeEnd: boolean;
+  /** Whether the day lies inside the selected range */
+  rangeMiddle: boolean;
+  /** Whether the day is part of the hovered range preview */
+  previewed: boolean;
+  /** Whether the day can't end the range in progress */
+  blocked: boolean;
+  /** Whether the day is the keyboard focus target */
+  focused: boolean;
+  /** Whether the day is today */
+  today: boolean;
+  /** Custom modifiers */
+  [modifier: string]: boolean;
+}
+
+/**
+ * Props of the `Day` slot, rendered inside the day button
+ */
+export interface ICalendarDayProps {
+  /** Calendar day */
+  date: Date;
+  /** State of the day */
+  modifiers: ICalendarDayModifiers;
+}
+
+/**
+ * Props of the `Weekday` slot, rendered inside the weekday column header
+ */
+export interface ICalendarWeekdayProps {
+  /** Day of the week with its localized names */
+  weekday: ICalendarWeekday;
 }
 
 /**
- * Type representing a selected date or date range
+ * Props of the `Caption` slot, rendered as the month title
  */
-export type SelectedDate = Date | IDateRange | undefined;
+export interface ICalendarCaptionProps {
+  /** First displayed month, or the captioned month in a multi-month layout */
+  month: Date;
+  /** Localized label of the month */
+  label: string;
+}
+
+/**
+ * Props of the `NavButton` slot, rendered in place of the previous/next month buttons
+ */
+export interface ICalendarNavButtonProps {
+  /** Navigation direction of the button */
+  direction: "previous" | "next";
+  /** Accessible label of the button */
+  "aria-label": string;
+  /** Navigates to the previous or next month */
+  onClick: () => void;
+  /** Whether the calendar is disabled */
+  disabled?: boolean;
+  /** Default class name of the button */
+  className?: string;
+}
+
+/**
+ * Props of the `WeekNumber` slot, rendered inside the week number cell
+ */
+export interface ICalendarWeekNumberProps {
+  /** Week number of the row */
+  weekNumber: number;
+  /** Days of the week row */
+  week: ICalendarDay[];
+}
+
+/**
+ * Component overrides for parts of the calendar.
+ * Slots rendered inside a calendar element keep its keyboard and ARIA behavior.
+ * Slots receive calendar days as native `Date`s, whatever the date adapter.
+ */
+export interface ICalendarComponents {
+  /** Content of a day button, e.g. with a price tag or event dots */
+  Day?: ComponentType<ICalendarDayProps>;
+  /** Content of a weekday column header */
+  Weekday?: ComponentType<ICalendarWeekdayProps>;
+  /** Month title */
+  Caption?: ComponentType<ICalendarCaptionProps>;
+  /** Previous and next month buttons */
+  NavButton?: ComponentType<ICalendarNavButtonProps>;
+  /** Content of a week number cell */
+  WeekNumber?: ComponentType<ICalendarWeekNumberProps>;
+}
 
 /**
- * Calendar component props interface
+ * Props shared by every calendar selection mode
  */
-export interface ICalendarProps {
+export interface ICalendarBaseProps<TDate = Date> {
   /** Custom class names for styling different parts of the calendar */
   classNames?: ICalendarClasses;
   /** Whether to show days from adjacent months */
   showOutsideDays?: boolean;
   /** Whether to display week numbers */
   showWeekNumbers?: boolean;
+  /** Rules used to number the weeks, defaults to ISO-8601 */
+  weekNumbering?: TWeekNumbering;
+  /**
+   * Callback when a week number is clicked. In range mode the enabled days of the week are
+   * also selected, and weeks whose range doesn't meet the range constraints can't be clicked
+   */
+  onWeekNumberClick?: (weekNumber: number, dates: TDate[]) => void;
   /** Whether to show a fixed number of weeks */
   fixedWeeks?: boolean;
   /** Minimum selectable date */
-  minDate?: Date;
+  minDate?: TDate;
   /** Maximum selectable date */
-  maxDate?: Date;
-  /** Currently selected date or date range */
-  selected?: SelectedDate;
-  /** Callback when a date is selected */
-  onSelect?: (date: SelectedDate) => void;
+  maxDate?: TDate;
   /** Callback when a day is clicked */
-  onDayClick?: (date: Date) => void;
-  /** Callback when month changes */
-  onMonthChange?: (date: Date) => void;
+  onDayClick?: (date: TDate) => void;
+  /** First displayed month, to control the navigation, e.g. to sync two calendars */
+  month?: TDate;
+  /** Initially displayed month when `month` is not controlled, defaults to the selection or today */
+  defaultMonth?: TDate;
+  /** Callback with the first day of the new first displayed month */
+  onMonthChange?: (date: TDate) => void;
   /** Locale for date formatting */
   locale?: string;
+  /** Date highlighted as today, defaults to the current date. Useful to freeze the date in tests */
+  today?: TDate;
+  /** Whether to show a footer button going to today and selecting it */
+  showTodayButton?: boolean;
+  /**
+   * IANA time zone, e.g. `Europe/Berlin`, defining "today" and the day each date belongs to.
+   * Emitted dates are the first instant of the selected days in this zone.
+   * Defaults to the local zone of the browser
+   */
+  timeZone?: string;
+  /**
+   * Adapter of the date type used by the props and callbacks, e.g. `createTemporalAdapter(Temporal)`.
+   * Defaults to native `Date`s in `timeZone`
+   */
+  dateAdapter?: IDateAdapter<TDate>;
+  /** Calendar system of the grid, navigation and labels. Emitted dates are always plain `Date`s */
+  calendar?: TCalendarSystem;
   /** Whether the calendar is disabled */
   disabled?: boolean;
-  /** Array of dates that are disabled */
-  disabledDays?: Date[];
-  /** Whether to enable date range selection */
-  enableRange?: boolean;
+  /** Days that are disabled, as one or more matchers */
+  disabledDays?: TDateMatcher<TDate> | TDateMatcher<TDate>[];
+  /** Custom day modifiers, e.g. `{ booked: bookedDays, weekend: { dayOfWeek: [0, 6] } }` */
+  modifiers?: Record<string, TDateMatcher<TDate> | TDateMatcher<TDate>[]>;
+  /** Class names applied to the days matching each modifier */
+  modifiersClassNames?: Record<string, string>;
+  /** Labels announced to screen readers for the days matching each modifier */
+  modifiersLabels?: Record<string, string>;
+  /** Layout of the caption of the day view, with navigation buttons and/or month and year dropdowns */
+  captionLayout?: TCaptionLayout;
+  /** Displayed view, to control the zoom level */
+  view?: TCalendarView;
+  /** Initially displayed view when `view` is not controlled, defaults to `minView` */
+  defaultView?: TCalendarView;
+  /** Callback when the title zooms out or a month or year is picked to zoom in */
+  onViewChange?: (view: TCalendarView) => void;
+  /**
+   * Lowest view, where picking selects instead of zooming in. With `month`, picking a month
+   * selects its first day, and ranges span whole months. Defaults to `day`
+   */
+  minView?: TCalendarView;
+  /** First day of the week (0 = Sunday). Defaults to the convention of the locale */
+  weekStartsOn?: TWeekday;
+  /** Number of consecutive months rendered side by side */
+  numberOfMonths?: number;
+  /** Whether navigation pages by all displayed months instead of one month */
+  pagedNavigation?: boolean;
+  /** Custom components rendered in place of the default calendar parts */
+  components?: ICalendarComponents;
 }
+
+/**
+ * Calendar props for selecting a single date
+ */
+export interface ICalendarSingleProps<TDate = Date> extends ICalendarBaseProps<TDate> {
+  /** Selection mode of the calendar */
+  mode?: "single";
+  /** Selected date, to control the selection. Pass `undefined` to clear it */
+  selected?: TDate;
+  /** Initially selected date when `selected` is not controlled */
+  defaultSelected?: TDate;
+  /** Callback when a date is selected */
+  onSelect?: (date: TDate) => void;
+}
+
+/**
+ * Calendar props for selecting multiple independent dates
+ */
+export interface ICalendarMultipleProps<TDate = Date> extends ICalendarBaseProps<TDate> {
+  /** Selection mode of the calendar */
+  mode: "multiple";
+  /** Selected dates, to control the selection */
+  selected?: TDate[];
+  /** Initially selected dates when `selected` is not controlled */
+  defaultSelected?: TDate[];
+  /** Callback when a date is toggled */
+  onSelect?: (dates: TDate[]) => void;
+  /** Minimum number of selected dates, below which dates can't be deselected */
+  min?: number;
+  /** Maximum number of selected dates, above which dates can't be selected */
+  max?: number;
+}
+
+/**
+ * Calendar props for selecting a date range
+ */
+export interface ICalendarRangeProps<TDate = Date> extends ICalendarBaseProps<TDate> {
+  /** Selection mode of the calendar */
+  mode: "range";
+  /** Selected date range, to control the selection. Pass `undefined` to clear it */
+  selected?: IDateRange<TDate>;
+  /** Initially selected date range when `selected` is not controlled */
+  defaultSelected?: IDateRange<TDate>;
+  /** Callback when the start or the end of the range is selected */
+  onSelect?: (range: IDateRange<TDate>) => void;
+  /**
+   * Callback when a range selection starts, with its first day, and when the range is
+   * completed with `undefined`. Called before `onSelect`.
+   */
+  onRangeStartChange?: (start: TDate | undefined) => void;
+  /** Minimum number of days in the range, including both ends */
+  minRangeLength?: number;
+  /** Maximum number of days in the range, including both ends */
+  maxRangeLength?: number;
+  /** Whether ranges that span disabled days are blocked */
+  excludeDisabled?: boolean;
+  /** Shortcuts shown in the footer, e.g. `[CALENDAR_PRESETS.last7Days, CALENDAR_PRESETS.thisMonth]` */
+  presets?: ICalendarPreset[];
+}
+
+/**
+ * Calendar component props, discriminated by the selection `mode`.
+ * `TDate` is the date type of the `dateAdapter`, native `Date` by default.
+ */
+export type ICalendarProps<TDate = Date> =
+  | ICalendarSingleProps<TDate>
+  | ICalendarMultipleProps<TDate>
+  | ICalendarRangeProps<TDate>;
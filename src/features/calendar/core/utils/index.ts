@@ -0,0 +1,713 @@
+/**
+ * Calendar Utility Functions
+ *
+ * This module contains the date arithmetic used by the Calendar component.
+ * All helpers work on calendar days represented as local midnight `Date`s
+ * and never mutate their arguments.
+ */
+
+import type {
+  ICalendarDay,
+  ICalendarWeekday,
+  IDateRange,
+  SelectedDate,
+  TCalendarSystem,
+  TDateMatcher,
+  TWeekday,
+} from "../types";
+
+/**
+ * Returns a copy of the date at local midnight.
+ *
+ * @param date - Date to normalize
+ * @returns The calendar day of the date
+ */
+export const startOfDay = (date: Date) => {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+};
+
+/**
+ * Returns the first day of the month of the date.
+ *
+ * @param date - Any date within the month
+ * @returns The first day of the month
+ */
+export const startOfMonth = (date: Date) => {
+  return new Date(date.getFullYear(), date.getMonth(), 1);
+};
+
+/**
+ * Adds a number of days to a date.
+ *
+ * @param date - Date to start from
+ * @param amount - Number of days to add, may be negative
+ * @returns The resulting calendar day
+ */
+export const addDays = (date: Date, amount: number) => {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + amount);
+};
+
+/**
+ * Adds a number of months to a date, clamping the day to the length of the target month.
+ *
+ * @param date - Date to start from
+ * @param amount - Number of months to add, may be negative
+ * @returns The resulting calendar day
+ *
+ * @example
+ * ```ts
+ * addMonths(new Date(2024, 0, 31), 1) // February 29, 2024
+ * ```
+ */
+export const addMonths = (date: Date, amount: number) => {
+  const daysInTargetMonth = new Date(date.getFullYear(), date.getMonth() + amount + 1, 0).getDate();
+  return new Date(
+    date.getFullYear(),
+    date.getMonth() + amount,
+    Math.min(date.getDate(), daysInTargetMonth)
+  );
+};
+
+/**
+ * Returns the first day of the week containing the date.
+ *
+ * @param date - Any date within the week
+ * @param weekStartsOn - Index of the first day of the week (0 = Sunday)
+ * @returns The first day of the week
+ */
+export const startOfWeek = (date: Date, weekStartsOn: TWeekday) => {
+  return addDays(date, -((date.getDay() - weekStartsOn + 7) % 7));
+};
+
+/**
+ * Returns the week conventions of a locale.
+ * Falls back to Sunday-first weeks where `Intl.Locale` week info isn't available.
+ *
+ * @param locale - BCP 47 locale tag
+ * @returns First day of the week (0 = Sunday) and the minimal number of days in the first week of the year
+ *
+ * @example
+ * ```ts
+ * getLocaleWeekInfo("de-DE") // { firstDay: 1, minimalDays: 4 }
+ * ```
+ */
+export const getLocaleWeekInfo = (locale: string) => {
+  try {
+    // Exposed as a getter in older engines and as a method in newer ones
+    const intlLocale = new Intl.Locale(locale) as Intl.Locale & {
+      weekInfo?: { firstDay: number; minimalDays: number };
+      getWeekInfo?: () => { firstDay: number; minimalDays: number };
+    };
+    const weekInfo = intlLocale.getWeekInfo?.() ?? intlLocale.weekInfo;
+    if (weekInfo) {
+      return { firstDay: (weekInfo.firstDay % 7) as TWeekday, minimalDays: weekInfo.minimalDays };
+    }
+  } catch {
+    // Invalid locale tags use the fallback below
+  }
+  return { firstDay: 0 as TWeekday, minimalDays: 1 };
+};
+
+/**
+ * Returns the first day of the week used by a locale.
+ * Falls back to Sunday where `Intl.Locale` week info isn't available.
+ *
+ * @param locale - BCP 47 locale tag
+ * @returns Index of the first day of the week (0 = Sunday)
+ *
+ * @example
+ * ```ts
+ * getLocaleWeekStartsOn("en-US") // 0
+ * getLocaleWeekStartsOn("de-DE") // 1
+ * ```
+ */
+export const getLocaleWeekStartsOn = (locale: string): TWeekday => {
+  return getLocaleWeekInfo(locale).firstDay;
+};
+
+/**
+ * Returns the days of the week with their names in a locale,
+ * starting with the first day of the week.
+ *
+ * @param locale - BCP 47 language tag
+ * @param weekStartsOn - First day of the week (0 = Sunday)
+ * @returns The seven days of the week
+ *
+ * @example
+ * ```ts
+ * getWeekdays("en-US", 1)[0] // { day: 1, shortName: "Mon", longName: "Monday" }
+ * ```
+ */
+export const getWeekdays = (locale: string, weekStartsOn: TWeekday): ICalendarWeekday[] => {
+  const shortFormatter = new Intl.DateTimeFormat(locale, { weekday: "short" });
+  const longFormatter = new Intl.DateTimeFormat(locale, { weekday: "long" });
+
+  return Array.from({ length: 7 }).map((_, i) => {
+    const day = ((weekStartsOn + i) % 7) as TWeekday;
+    const date = new Date(2023, 0, 1 + day); // January 1, 2023 was a Sunday
+    return { day, shortName: shortFormatter.format(date), longName: longFormatter.format(date) };
+  });
+};
+
+/**
+ * Returns the number of calendar days between two dates.
+ * Ignores the time of day, so it's safe across DST changes.
+ *
+ * @param a - Later date
+ * @param b - Earlier date
+ * @returns Number of days from `b` to `a`, negative when `a` is earlier
+ */
+export const differenceInDays = (a: Date, b: Date) => {
+  const utcA = Date.UTC(a.getFullYear(), a.getMonth(), a.getDate());
+  const utcB = Date.UTC(b.getFullYear(), b.getMonth(), b.getDate());
+  return Math.round((utcA - utcB) / 86400000);
+};
+
+/**
+ * Returns the week number of a date. Week 1 is the first week of the year
+ * with at least `minimalDays` days in that year, so the first days of January
+ * may belong to the last week of the previous year.
+ *
+ * @param date - Any date within the week
+ * @param weekStartsOn - Index of the first day of the week (0 = Sunday)
+ * @param minimalDays - Minimal number of days in the first week of the year
+ * @returns The week number
+ *
+ * @example
+ * ```ts
+ * getWeekNumber(new Date(2021, 0, 1), 1, 4) // 53 (ISO-8601)
+ * getWeekNumber(new Date(2021, 0, 1), 0, 1) // 1 (US)
+ * ```
+ */
+export const getWeekNumber = (date: Date, weekStartsOn: TWeekday, minimalDays: number) => {
+  const weekStart = startOfWeek(date, weekStartsOn);
+  // Week 1 is the week containing the `minimalDays`th day of January
+  const [firstWeekStart] = [1, 0, -1]
+    .map((offset) =>
+      startOfWeek(new Date(date.getFullYear() + offset, 0, minimalDays), weekStartsOn)
+    )
+    .filter((start) => start <= weekStart);
+  return Math.floor(differenceInDays(weekStart, firstWeekStart) / 7) + 1;
+};
+
+/**
+ * Checks whether two dates fall on the same calendar day.
+ */
+export const isSameDay = (a: Date, b: Date) => {
+  return (
+    a.getFullYear() === b.getFullYear() &&
+    a.getMonth() === b.getMonth() &&
+    a.getDate() === b.getDate()
+  );
+};
+
+/**
+ * Checks whether two dates fall in the same month.
+ */
+export const isSameMonth = (a: Date, b: Date) => {
+  return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth();
+};
+
+/**
+ * Computes the grid of a month, split into week rows.
+ * Every row has 7 cells, including the days of adjacent months.
+ *
+ * @param month - Any date within the month
+ * @param weekStartsOn - Index of the first day of the week (0 = Sunday)
+ * @param fixedWeeks - Whether to always return 6 weeks
+ * @param calendar - Calendar system defining the month
+ * @returns The week rows of the month
+ */
+export const getMonthWeeks = (
+  month: Date,
+  weekStartsOn: TWeekday,
+  fixedWeeks = false,
+  calendar: TCalendarSystem = "gregory"
+) => {
+  const firstDay = startOfCalendarMonth(month, calendar);
+  const daysInMonth = getDaysInCalendarMonth(firstDay, calendar);
+  const nextMonth = addDays(firstDay, daysInMonth);
+  // Number of days shown from the previous month before the 1st
+  const leadingDays = (firstDay.getDay() - weekStartsOn + 7) % 7;
+
+  // Calculate total cells needed for the grid
+  const totalCells = fixedWeeks
+    ? 42 // Always show 6 weeks
+    : leadingDays + daysInMonth + ((7 - ((leadingDays + daysInMonth) % 7)) % 7);
+
+  return Array.from({ length: totalCells / 7 }).map((_, weekIndex) =>
+    Array.from({ length: 7 }).map((_, dayIndex): ICalendarDay => {
+      const date = addDays(firstDay, weekIndex * 7 + dayIndex - leadingDays);
+      return { date, isOutside: date < firstDay || date >= nextMonth };
+    })
+  );
+};
+
+/**
+ * Returns a stable `YYYY-MM-DD` key for a calendar day.
+ * Used to identify day cells in the DOM.
+ *
+ * @param date - Calendar day
+ * @returns The day key
+ */
+export const getDayKey = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Checks whether a selection is a date range.
+ */
+export const isDateRange = <TDate>(value: SelectedDate<TDate>): value is IDateRange<TDate> => {
+  return typeof value === "object" && value !== null && "from" in value && "to" in value;
+};
+
+/**
+ * Returns the earliest date of a selection in any mode.
+ *
+ * @param selected - Selected date, dates or date range
+ * @returns The first selected date, if any
+ */
+export const getFirstSelectedDate = (selected: SelectedDate) => {
+  if (!selected) return undefined;
+  if (selected instanceof Date) return selected;
+  if (Array.isArray(selected)) {
+    return selected.reduce<Date | undefined>(
+      (first, date) => (!first || date < first ? date : first),
+      undefined
+    );
+  }
+  return selected.from;
+};
+
+/**
+ * Checks whether two selections contain the same days in the same order.
+ *
+ * @param a - First selection
+ * @param b - Second selection
+ * @returns Whether both selections are equal
+ */
+export const isSameSelection = (a: SelectedDate, b: SelectedDate) => {
+  const getDates = (selected: SelectedDate) => {
+    if (!selected) return [];
+    if (selected instanceof Date) return [selected];
+    if (Array.isArray(selected)) return selected;
+    return [selected.from, selected.to];
+  };
+  const datesA = getDates(a);
+  const datesB = getDates(b);
+  return datesA.length === datesB.length && datesA.every((date, i) => isSameDay(date, datesB[i]));
+};
+
+/**
+ * Checks whether a day matches any of the given matchers.
+ * Dates are compared by calendar day, ignoring their time of day.
+ *
+ * @param date - Calendar day to check
+ * @param matchers - One or more matchers
+ * @returns Whether at least one matcher matches the day
+ *
+ * @example
+ * ```ts
+ * isMatch(date, [{ dayOfWeek: [0, 6] }, holidays, { before: new Date() }])
+ * ```
+ */
+export const isMatch = (date: Date, matchers?: TDateMatcher | TDateMatcher[]): boolean => {
+  if (matchers === undefined) return false;
+  const list = Array.isArray(matchers) ? matchers : [matchers];
+
+  return list.some((matcher) => {
+    if (typeof matcher === "boolean") return matcher;
+    if (typeof matcher === "function") return matcher(date);
+    if (matcher instanceof Date) return isSameDay(date, matcher);
+    if (Array.isArray(matcher)) return matcher.some((d) => isSameDay(date, d));
+    if ("dayOfWeek" in matcher) return matcher.dayOfWeek.includes(date.getDay() as TWeekday);
+    if ("from" in matcher) {
+      return differenceInDays(date, matcher.from) >= 0 && differenceInDays(matcher.to, date) >= 0;
+    }
+
+    const isBefore = "before" in matcher && differenceInDays(matcher.before, date) > 0;
+    const isAfter = "after" in matcher && differenceInDays(date, matcher.after) > 0;
+    return "before" in matcher && "after" in matcher ? isBefore && isAfter : isBefore || isAfter;
+  });
+};
+
+// Formatters are expensive to create, so they're cached per time zone
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Returns the wall-clock date and time of an instant in a time zone.
+ */
+const getZonedParts = (date: Date, timeZone: string) => {
+  let formatter = zonedFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    zonedFormatters.set(timeZone, formatter);
+  }
+
+  const parts = formatter.formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+  return {
+    year: get("year"),
+    month: get("month") - 1,
+    day: get("day"),
+    hours: get("hour"),
+    minutes: get("minute"),
+    seconds: get("second"),
+  };
+};
+
+/**
+ * Returns the calendar day on which an instant falls in a time zone.
+ * Without a time zone, the local zone of the browser is used.
+ *
+ * @param date - Instant to convert
+ * @param timeZone - IANA time zone, e.g. `America/New_York`
+ * @returns The calendar day, as local midnight
+ *
+ * @example
+ * ```ts
+ * toCalendarDay(new Date("2024-03-10T02:00:00Z"), "America/Los_Angeles") // March 9, 2024
+ * ```
+ */
+export const toCalendarDay = (date: Date, timeZone?: string) => {
+  if (!timeZone) return startOfDay(date);
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return new Date(year, month, day);
+};
+
+/**
+ * Returns the instant at which a calendar day starts in a time zone.
+ * Inverse of `toCalendarDay`.
+ *
+ * @param day - Calendar day, as local midnight
+ * @param timeZone - IANA time zone, e.g. `America/New_York`
+ * @returns The first instant of the day in the time zone
+ */
+export const fromCalendarDay = (day: Date, timeZone?: string) => {
+  if (!timeZone) return startOfDay(day);
+  const utcMidnight = Date.UTC(day.getFullYear(), day.getMonth(), day.getDate());
+
+  // Offset of the time zone from UTC at an instant, in milliseconds
+  const getOffset = (instant: number) => {
+    const { year, month, day, hours, minutes, seconds } = getZonedParts(
+      new Date(instant),
+      timeZone
+    );
+    return Date.UTC(year, month, day, hours, minutes, seconds) - instant;
+  };
+
+  // The offset is checked again at the guessed instant, as a DST change may lie in between
+  const instant = utcMidnight - getOffset(utcMidnight - getOffset(utcMidnight));
+  // Days starting in a DST gap begin at the first instant after it
+  return isSameDay(toCalendarDay(new Date(instant), timeZone), day)
+    ? new Date(instant)
+    : new Date(instant + 3600000);
+};
+
+/**
+ * Applies a conversion to every date of a selection, in any mode.
+ *
+ * @param selected - Selected date, dates or date range
+ * @param convert - Conversion applied to each date
+ * @returns The converted selection
+ */
+export const mapSelection = <TFrom, TTo>(
+  selected: SelectedDate<TFrom>,
+  convert: (date: TFrom) => TTo
+): SelectedDate<TTo> => {
+  if (selected === undefined) return undefined;
+  if (Array.isArray(selected)) return selected.map(convert);
+  if (isDateRange(selected)) return { from: convert(selected.from), to: convert(selected.to) };
+  return convert(selected as TFrom);
+};
+
+/**
+ * Applies a conversion to every date of one or more matchers.
+ * Matcher objects are told apart from dates by being plain objects.
+ *
+ * @param matchers - One or more matchers on dates of a date adapter
+ * @param toDate - Conversion of a date to a calendar day
+ * @param fromDate - Conversion of a calendar day to a date, for function matchers
+ * @returns The matchers on calendar days
+ */
+export const mapMatchers = <TDate>(
+  matchers: TDateMatcher<TDate> | TDateMatcher<TDate>[] | undefined,
+  toDate: (value: TDate) => Date,
+  fromDate: (date: Date) => TDate
+): TDateMatcher[] | undefined => {
+  if (matchers === undefined) return undefined;
+  const list = Array.isArray(matchers) ? matchers : [matchers];
+
+  return list.map((matcher): TDateMatcher => {
+    if (typeof matcher === "boolean") return matcher;
+    if (typeof matcher === "function") {
+      return (date: Date) => (matcher as (value: TDate) => boolean)(fromDate(date));
+    }
+    if (Array.isArray(matcher)) return matcher.map(toDate);
+    if (Object.getPrototypeOf(matcher) !== Object.prototype) return toDate(matcher as TDate);
+    return Object.fromEntries(
+      Object.entries(matcher as object).map(([key, value]) => [
+        key,
+        key === "dayOfWeek" ? value : toDate(value),
+      ])
+    ) as TDateMatcher;
+  });
+};
+
+/**
+ * Parses a plain date (`YYYY-MM-DD`), as stored by backends without time zones.
+ *
+ * @param value - Plain date string
+ * @param timeZone - IANA time zone the day starts in, defaults to the local zone
+ * @returns The first instant of the day, or `undefined` for invalid strings
+ *
+ * @example
+ * ```ts
+ * <Calendar
+ *   timeZone="Asia/Tokyo"
+ *   selected={parsePlainDate(booking.date, "Asia/Tokyo")}
+ *   onSelect={(date) => save(formatPlainDate(date, "Asia/Tokyo"))}
+ * />
+ * ```
+ */
+export const parsePlainDate = (value: string, timeZone?: string) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return undefined;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day);
+  if (date.getMonth() !== month - 1 || date.getDate() !== day) return undefined;
+  return fromCalendarDay(date, timeZone);
+};
+
+/**
+ * Formats the calendar day of an instant as a plain date (`YYYY-MM-DD`).
+ *
+ * @param date - Instant to format
+ * @param timeZone - IANA time zone used to find the day, defaults to the local zone
+ * @returns The plain date string
+ */
+export const formatPlainDate = (date: Date, timeZone?: string) => {
+  return getDayKey(toCalendarDay(date, timeZone));
+};
+
+// Formatters are expensive to create, so they're cached per calendar system
+const calendarFormatters = new Map<TCalendarSystem, Intl.DateTimeFormat>();
+
+/**
+ * Returns the year and the day of the month of a date in a calendar system.
+ *
+ * @param date - Calendar day
+ * @param calendar - Calendar system
+ * @returns The year and the day of the month
+ *
+ * @example
+ * ```ts
+ * getCalendarParts(new Date(2024, 2, 20), "persian") // { year: 1403, day: 1 }
+ * ```
+ */
+export const getCalendarParts = (date: Date, calendar: TCalendarSystem = "gregory") => {
+  if (calendar === "gregory") return { year: date.getFullYear(), day: date.getDate() };
+
+  let formatter = calendarFormatters.get(calendar);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat(`en-US-u-ca-${calendar}`, {
+      year: "numeric",
+      day: "numeric",
+    });
+    calendarFormatters.set(calendar, formatter);
+  }
+
+  const parts = formatter.formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+  return { year: get("year"), day: get("day") };
+};
+
+/**
+ * Returns the first day of the month of a date in a calendar system.
+ *
+ * @param date - Any date within the month
+ * @param calendar - Calendar system
+ * @returns The first day of the month
+ */
+export const startOfCalendarMonth = (date: Date, calendar: TCalendarSystem = "gregory") => {
+  if (calendar === "gregory") return startOfMonth(date);
+  return addDays(startOfDay(date), 1 - getCalendarParts(date, calendar).day);
+};
+
+/**
+ * Returns the number of days in the month of a date in a calendar system.
+ *
+ * @param date - Any date within the month
+ * @param calendar - Calendar system
+ * @returns The length of the month
+ */
+export const getDaysInCalendarMonth = (date: Date, calendar: TCalendarSystem = "gregory") => {
+  if (calendar === "gregory") {
+    return new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+  }
+  const monthStart = startOfCalendarMonth(date, calendar);
+  // No month is longer than 31 days, so this always lands in the next month
+  return differenceInDays(startOfCalendarMonth(addDays(monthStart, 31), calendar), monthStart);
+};
+
+/**
+ * Adds a number of months to a date in a calendar system,
+ * clamping the day to the length of the target month.
+ *
+ * @param date - Date to start from
+ * @param amount - Number of months to add, may be negative
+ * @param calendar - Calendar system
+ * @returns The resulting calendar day
+ */
+export const addCalendarMonths = (
+  date: Date,
+  amount: number,
+  calendar: TCalendarSystem = "gregory"
+) => {
+  if (calendar === "gregory") return addMonths(date, amount);
+
+  let monthStart = startOfCalendarMonth(date, calendar);
+  for (let i = 0; i < Math.abs(amount); i++) {
+    monthStart =
+      amount > 0
+        ? startOfCalendarMonth(addDays(monthStart, 31), calendar)
+        : startOfCalendarMonth(addDays(monthStart, -1), calendar);
+  }
+  const day = Math.min(
+    getCalendarParts(date, calendar).day,
+    getDaysInCalendarMonth(monthStart, calendar)
+  );
+  return addDays(monthStart, day - 1);
+};
+
+/**
+ * Returns the first days of the months of the year of a date in a calendar system.
+ * Years may have 12 or 13 months, e.g. in the Hebrew calendar.
+ *
+ * @param date - Any date within the year
+ * @param calendar - Calendar system
+ * @returns The first day of every month of the year
+ */
+export const getCalendarYearMonths = (date: Date, calendar: TCalendarSystem = "gregory") => {
+  if (calendar === "gregory") {
+    return Array.from({ length: 12 }).map((_, month) => new Date(date.getFullYear(), month, 1));
+  }
+
+  const { year } = getCalendarParts(date, calendar);
+  let monthStart = startOfCalendarMonth(date, calendar);
+  while (getCalendarParts(addDays(monthStart, -1), calendar).year === year) {
+    monthStart = startOfCalendarMonth(addDays(monthStart, -1), calendar);
+  }
+
+  const months: Date[] = [];
+  while (getCalendarParts(monthStart, calendar).year === year) {
+    months.push(monthStart);
+    monthStart = addCalendarMonths(monthStart, 1, calendar);
+  }
+  return months;
+};
+
+/**
+ * Returns the first day of a month given by its year and its index within the year.
+ *
+ * @param year - Year in the calendar system
+ * @param monthIndex - Index of the month within the year, clamped to the last month
+ * @param calendar - Calendar system
+ * @param reference - Any date near the target, used as the starting point of the search
+ * @returns The first day of the month
+ */
+export const getCalendarMonth = (
+  year: number,
+  monthIndex: number,
+  calendar: TCalendarSystem = "gregory",
+  reference: Date = new Date()
+) => {
+  if (calendar === "gregory") return new Date(year, monthIndex, 1);
+
+  // Years have at least 12 months, so this lands in or just after the target year
+  let monthStart = addCalendarMonths(
+    startOfCalendarMonth(reference, calendar),
+    (year - getCalendarParts(reference, calendar).year) * 12,
+    calendar
+  );
+  while (getCalendarParts(monthStart, calendar).year > year) {
+    monthStart = addCalendarMonths(monthStart, -1, calendar);
+  }
+  while (getCalendarParts(monthStart, calendar).year < year) {
+    monthStart = addCalendarMonths(monthStart, 1, calendar);
+  }
+
+  const months = getCalendarYearMonths(monthStart, calendar);
+  return months[Math.min(monthIndex, months.length - 1)];
+};
+
+/**
+ * Adds a number of years to a date in a calendar system, keeping the month
+ * index and clamping the day to the length of the target month.
+ *
+ * @param date - Date to start from
+ * @param amount - Number of years to add, may be negative
+ * @param calendar - Calendar system
+ * @returns The resulting calendar day
+ */
+export const addCalendarYears = (
+  date: Date,
+  amount: number,
+  calendar: TCalendarSystem = "gregory"
+) => {
+  if (calendar === "gregory") return addMonths(date, amount * 12);
+
+  const monthStart = startOfCalendarMonth(date, calendar);
+  const monthIndex = getCalendarYearMonths(date, calendar).findIndex((month) =>
+    isSameDay(month, monthStart)
+  );
+  const { year, day } = getCalendarParts(date, calendar);
+  const targetMonth = getCalendarMonth(year + amount, monthIndex, calendar, date);
+  return addDays(targetMonth, Math.min(day, getDaysInCalendarMonth(targetMonth, calendar)) - 1);
+};
+
+/**
+ * Returns the first day of the quarter of a date in a calendar system,
+ * grouping the months of the year by three.
+ *
+ * @param date - Any date within the quarter
+ * @param calendar - Calendar system
+ * @returns The first day of the quarter
+ */
+export const startOfCalendarQuarter = (date: Date, calendar: TCalendarSystem = "gregory") => {
+  const monthStart = startOfCalendarMonth(date, calendar);
+  const months = getCalendarYearMonths(date, calendar);
+  const monthIndex = months.findIndex((month) => isSameDay(month, monthStart));
+  return months[monthIndex - (monthIndex % 3)];
+};
+
+/**
+ * Returns a locale tag formatting dates in a calendar system.
+ *
+ * @param locale - BCP 47 locale tag
+ * @param calendar - Calendar system
+ * @returns The locale tag with the calendar extension
+ *
+ * @example
+ * ```ts
+ * getCalendarLocale("fa-IR", "persian") // "fa-IR-u-ca-persian"
+ * ```
+ */
+export const getCalendarLocale = (locale: string, calendar: TCalendarSystem = "gregory") => {
+  if (calendar === "gregory") return locale;
+  return new Intl.Locale(locale, { calendar }).toString();
+};
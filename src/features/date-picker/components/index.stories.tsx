@@ -0,0 +1,132 @@
+/**
+ * DatePicker Component Stories
+ *
+ * This module contains Storybook stories for the DatePicker component,
+ * showcasing single date and range selection, localization and styling.
+ */
+
+import type { Meta, StoryObj } from "@storybook/react-vite";
+import { useState } from "react";
+
+import DatePicker from "../components";
+import type { IDatePickerFieldProps } from "../core/types";
+
+/**
+ * Story configuration for the DatePicker component
+ * Defines component metadata, documentation, and available controls
+ */
+const meta = {
+  title: "Components/DatePicker",
+  component: DatePicker,
+  tags: ["autodocs"],
+  parameters: {
+    layout: "centered",
+    docs: {
+      description: {
+        component: `
+A form field that opens a Calendar in a popover.
+The selected date or date range is displayed in a read-only input.
+
+## Features
+- Single date and date range selection
+- Closes on selection and returns focus to the field
+- Locale-aware formatting of the displayed value
+- Closes on outside click and Escape key
+
+## Usage
+\`\`\`tsx
+import { DatePicker } from "@mohammadbekran/fancy-ui";
+
+function MyComponent() {
+  const [date, setDate] = useState<Date>();
+
+  return <DatePicker name="date" label="Date" selected={date} onSelect={setDate} />;
+}
+\`\`\`
+        `,
+      },
+    },
+  },
+  argTypes: {
+    locale: {
+      control: "select",
+      options: ["en-US", "fr-FR", "de-DE", "es-ES", "pt-BR"],
+      description: "Locale for date formatting",
+    },
+    disabled: {
+      control: "boolean",
+      description: "Whether the picker is disabled",
+    },
+    mode: {
+      control: "select",
+      options: ["single", "multiple", "range"],
+      description: "Selection mode of the calendar",
+    },
+  },
+  args: {
+    name: "date",
+    label: "Date",
+  },
+} satisfies Meta<typeof DatePicker>;
+
+export default meta;
+
+/**
+ * Story type definition for DatePicker component stories
+ */
+type TStory = StoryObj<typeof DatePicker>;
+
+/**
+ * Default date picker configuration
+ */
+export const Default: TStory = {};
+
+/**
+ * Date picker with range selection enabled
+ */
+export const WithDateRange: TStory = {
+  args: {
+    label: "Stay",
+    mode: "range",
+    placeholder: "Select dates",
+  },
+};
+
+/**
+ * Date picker selecting multiple independent dates
+ */
+export const WithMultipleDates: TStory = {
+  args: {
+    label: "Shifts",
+    mode: "multiple",
+    placeholder: "Select days",
+  },
+};
+
+/**
+ * Date picker formatting its value for a different locale
+ */
+export const Localized: TStory = {
+  args: {
+    locale: "de-DE",
+    formatOptions: { day: "2-digit", month: "long", year: "numeric" },
+  },
+};
+
+/**
+ * Date picker with its value managed by the parent
+ */
+export const Controlled: TStory = {
+  render: (args) => {
+    const [date, setDate] = useState<Date>(new Date());
+
+    return (
+      <DatePicker
+        {...(args as IDatePickerFieldProps)}
+        mode="single"
+        selected={date}
+        onSelect={setDate}
+      />
+    );
+  },
+};
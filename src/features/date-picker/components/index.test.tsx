@@ -0,0 +1,157 @@
+/**
+ * DatePicker Component Tests
+ *
+ * This module contains test suites for the DatePicker component,
+ * ensuring proper functionality and edge cases are handled correctly.
+ * Tests are organized by feature and include:
+ * - Opening and closing the popover
+ * - Single date and range selection
+ * - Value formatting and focus management
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+
+import { CALENDAR_PRESETS } from "../../calendar/core/constants";
+import DatePicker from "../components";
+
+describe("DatePicker", () => {
+  const mockOnSelect = vi.fn();
+  const initialDate = new Date(2024, 1, 15); // February 15, 2024
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("Popover", () => {
+    it("opens the calendar when the field is clicked", async () => {
+      const user = userEvent.setup();
+      render(<DatePicker name="date" label="Date" />);
+
+      expect(screen.queryByRole("dialog")).not.toBeInTheDocument();
+      await user.click(screen.getByRole("combobox"));
+
+      expect(screen.getByRole("dialog")).toBeInTheDocument();
+      expect(screen.getByRole("combobox")).toHaveAttribute("aria-expanded", "true");
+    });
+
+    it("closes on Escape and returns focus to the field", async () => {
+      const user = userEvent.setup();
+      render(<DatePicker name="date" label="Date" />);
+
+      await user.click(screen.getByRole("combobox"));
+      await user.keyboard("{Escape}");
+
+      expect(screen.queryByRole("dialog")).not.toBeInTheDocument();
+      expect(screen.getByRole("combobox")).toHaveFocus();
+    });
+
+    it("moves focus to the selected day when opened", async () => {
+      const user = userEvent.setup();
+      render(<DatePicker name="date" selected={initialDate} />);
+
+      await user.click(screen.getByRole("combobox"));
+
+      expect(screen.getByRole("button", { name: "Thursday, February 15, 2024" })).toHaveFocus();
+    });
+
+    it("closes on outside click", async () => {
+      const user = userEvent.setup();
+      render(
+        <>
+          <DatePicker name="date" label="Date" />
+          <button>Outside</button>
+        </>
+      );
+
+      await user.click(screen.getByRole("combobox"));
+      await user.click(screen.getByRole("button", { name: "Outside" }));
+
+      expect(screen.queryByRole("dialog")).not.toBeInTheDocument();
+    });
+  });
+
+  describe("Date Selection", () => {
+    it("selects a date, closes and formats the value with the locale", async () => {
+      const user = userEvent.setup();
+      render(
+        <DatePicker
+          name="date"
+          defaultSelected={initialDate}
+          onSelect={mockOnSelect}
+          locale="de-DE"
+        />
+      );
+
+      await user.click(screen.getByRole("combobox"));
+      await user.click(screen.getByRole("button", { name: "Dienstag, 20. Februar 2024" }));
+
+      expect(mockOnSelect).toHaveBeenCalledTimes(1);
+      expect(screen.queryByRole("dialog")).not.toBeInTheDocument();
+      expect(screen.getByRole("combobox")).toHaveValue("20.02.2024");
+      expect(screen.getByRole("combobox")).toHaveFocus();
+    });
+
+    it("stays open until a range is completed", async () => {
+      const user = userEvent.setup();
+      render(
+        <DatePicker
+          name="range"
+          mode="range"
+          defaultSelected={{ from: initialDate, to: initialDate }}
+          onSelect={mockOnSelect}
+        />
+      );
+
+      await user.click(screen.getByRole("combobox"));
+      await user.click(screen.getByRole("button", { name: "Saturday, February 10, 2024" }));
+      expect(screen.getByRole("dialog")).toBeInTheDocument();
+
+      await user.click(screen.getByRole("button", { name: "Monday, February 12, 2024" }));
+      expect(mockOnSelect).toHaveBeenCalledTimes(2);
+      expect(screen.queryByRole("dialog")).not.toBeInTheDocument();
+      expect(screen.getByRole("combobox")).toHaveValue("Feb 10, 2024 – Feb 12, 2024");
+    });
+
+    it("closes on a preset and keeps its range", async () => {
+      const user = userEvent.setup();
+      render(
+        <DatePicker
+          name="range"
+          mode="range"
+          today={initialDate}
+          presets={[CALENDAR_PRESETS.last7Days]}
+          onSelect={mockOnSelect}
+        />
+      );
+
+      await user.click(screen.getByRole("combobox"));
+      await user.click(screen.getByRole("button", { name: "Last 7 days" }));
+
+      expect(screen.queryByRole("dialog")).not.toBeInTheDocument();
+      expect(screen.getByRole("combobox")).toHaveValue("Feb 9, 2024 – Feb 15, 2024");
+
+      // A new range starts on the next day picked
+      await user.click(screen.getByRole("combobox"));
+      await user.click(screen.getByRole("button", { name: "Tuesday, February 20, 2024" }));
+
+      expect(screen.getByRole("dialog")).toBeInTheDocument();
+      expect(mockOnSelect).toHaveBeenLastCalledWith({
+        from: new Date(2024, 1, 20),
+        to: new Date(2024, 1, 20),
+      });
+    });
+
+    it("stays open while toggling multiple dates", async () => {
+      const user = userEvent.setup();
+      render(<DatePicker name="days" mode="multiple" defaultSelected={[initialDate]} />);
+
+      await user.click(screen.getByRole("combobox"));
+      await user.click(screen.getByRole("button", { name: "Saturday, February 10, 2024" }));
+
+      expect(screen.getByRole("dialog")).toBeInTheDocument();
+      expect(screen.getByRole("combobox")).toHaveValue("Feb 10, 2024, Feb 15, 2024");
+    });
+  });
+});
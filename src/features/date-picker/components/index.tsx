@@ -0,0 +1,190 @@
+import React, { useCallback, useRef, useState } from "react";
+
+import { useDirection } from "../../../core/direction";
+import { usePopover } from "../../../core/popover";
+import { cn } from "../../../core/utils";
+import Calendar from "../../calendar/components";
+import type { ICalendarProps, SelectedDate } from "../../calendar/core/types";
+import { getDateAdapter } from "../../calendar/core/adapters";
+import { getCalendarLocale, isDateRange } from "../../calendar/core/utils";
+import Input from "../../input/components";
+import type { IDatePickerProps } from "../core/types";
+
+/**
+ * DatePicker Component
+ *
+ * A form field that opens a Calendar in a popover and displays the selected
+ * date (or date range) in a read-only input.
+ *
+ * Features:
+ * - Read-only trigger field built on the Input component
+ * - Single date, multiple dates and date range selection
+ * - Closes on selection and returns focus to the field
+ * - Locale-aware formatting of the displayed value
+ * - Closes on outside click and Escape key
+ * - Custom styling through the calendar classNames (root, trigger, content)
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <DatePicker
+ *   name="checkIn"
+ *   label="Check-in"
+ *   mode="range"
+ *   selected={range}
+ *   onSelect={setRange}
+ *   locale="de-DE"
+ * />
+ * ```
+ */
+const DatePicker = <TDate = Date,>(
+  // The date type is only inferred from the date adapter
+  props: IDatePickerProps<NoInfer<TDate>> & Pick<IDatePickerProps<TDate>, "dateAdapter">
+) => {
+  const {
+    name,
+    label,
+    placeholder = "Select a date",
+    helperText,
+    error,
+    required = false,
+    fullWidth = false,
+    disabled,
+    formatOptions = { dateStyle: "medium" },
+    onOpenChange,
+    classNames,
+    selected,
+    defaultSelected,
+    onSelect,
+    locale = "en-US",
+    mode = "single",
+    ...calendarProps
+  } = props;
+  const { onRangeStartChange } = props.mode === "range" ? props : {};
+
+  // Track the selected value and an in-progress range selection
+  const [uncontrolledSelected, setSelectedDate] = useState<SelectedDate<TDate>>(defaultSelected);
+  const isSelectingRange = useRef(false);
+  const dir = useDirection();
+
+  // The selection is controlled by passing `selected`, even as undefined to clear it
+  const selectedDate = "selected" in props ? selected : uncontrolledSelected;
+
+  const handleOpenChange = useCallback(
+    (open: boolean) => {
+      isSelectingRange.current = false;
+      onOpenChange?.(open);
+    },
+    [onOpenChange]
+  );
+
+  // Focus moves to the active day of the calendar once the popover opens
+  // and back to the trigger field when it closes
+  const { isOpen, setOpen, close, rootRef, contentRef, contentId, handleContentKeyDown } =
+    usePopover({
+      triggerSelector: "input",
+      initialFocusSelector: '[role="grid"] [tabindex="0"]',
+      onOpenChange: handleOpenChange,
+    });
+
+  // Track the range in progress, reported by the calendar before each selection
+  const handleRangeStartChange = (start: TDate | undefined) => {
+    isSelectingRange.current = start !== undefined;
+    onRangeStartChange?.(start);
+  };
+
+  // Close on a single date or a completed range, stay open while toggling multiple dates
+  const handleSelect = (date: SelectedDate<TDate>) => {
+    setSelectedDate(date);
+    (onSelect as ((value: SelectedDate<TDate>) => void) | undefined)?.(date);
+
+    if (mode === "multiple" || isSelectingRange.current) return;
+    close();
+  };
+
+  const handleTriggerKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (disabled) return;
+
+    if (["Enter", " ", "ArrowDown"].includes(e.key)) {
+      e.preventDefault();
+      setOpen(true);
+    } else if (e.key === "Escape" && isOpen) {
+      e.preventDefault();
+      setOpen(false);
+    }
+  };
+
+  // Format the selected value for display in the trigger field
+  const adapter = getDateAdapter(calendarProps.dateAdapter, calendarProps.timeZone);
+  const formatDate = (date: TDate) =>
+    adapter.format(date, getCalendarLocale(locale, calendarProps.calendar), formatOptions);
+  const displayValue =
+    selectedDate === undefined
+      ? ""
+      : Array.isArray(selectedDate)
+        ? [...selectedDate].sort(adapter.compare).map(formatDate).join(", ")
+        : isDateRange(selectedDate)
+          ? `${formatDate(selectedDate.from)} – ${formatDate(selectedDate.to)}`
+          : formatDate(selectedDate as TDate);
+
+  return (
+    <div
+      ref={rootRef}
+      dir={dir}
+      className={cn("relative inline-block", fullWidth && "block w-full", classNames?.root)}
+    >
+      {/* Read-only trigger field */}
+      <Input
+        name={name}
+        label={label}
+        value={displayValue}
+        placeholder={placeholder}
+        helperText={helperText}
+        error={error}
+        required={required}
+        fullWidth={fullWidth}
+        disabled={disabled}
+        readOnly
+        role="combobox"
+        aria-haspopup="dialog"
+        aria-expanded={isOpen}
+        aria-controls={isOpen ? contentId : undefined}
+        onClick={() => !disabled && setOpen(!isOpen)}
+        onKeyDown={handleTriggerKeyDown}
+        classNames={{ input: cn("cursor-pointer", classNames?.trigger) }}
+      />
+      {/* Calendar popover */}
+      {isOpen && (
+        <div
+          ref={contentRef}
+          id={contentId}
+          role="dialog"
+          aria-label={label ?? placeholder}
+          tabIndex={-1}
+          onKeyDown={handleContentKeyDown}
+          className={cn(
+            "absolute start-0 top-full z-10 mt-2 p-4",
+            "rounded-lg border border-gray-200 bg-white shadow-xl",
+            "focus:outline-none",
+            classNames?.content
+          )}
+        >
+          <Calendar
+            {...calendarProps}
+            {...({
+              mode,
+              selected: selectedDate,
+              onSelect: handleSelect,
+              onRangeStartChange: handleRangeStartChange,
+            } as ICalendarProps<TDate>)}
+            classNames={classNames}
+            locale={locale}
+            disabled={disabled}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DatePicker;
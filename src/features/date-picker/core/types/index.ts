@@ -0,0 +1,42 @@
+/**
+ * DatePicker Component Type Definitions
+ *
+ * This module contains TypeScript type definitions for the DatePicker component,
+ * ensuring type safety and providing comprehensive documentation for developers.
+ * The types are designed to be extensible while maintaining strict type checking.
+ */
+
+import type { ICalendarProps } from "../../../calendar/core/types";
+
+/**
+ * Props of the DatePicker trigger field and popover
+ */
+export interface IDatePickerFieldProps {
+  /** Name of the trigger field, used for form submission */
+  name: string;
+  /** Display label for the trigger field */
+  label?: string;
+  /** Placeholder shown while no date is selected */
+  placeholder?: string;
+  /** Helper text to display below the trigger field */
+  helperText?: string;
+  /** Error message to display below the trigger field */
+  error?: string;
+  /** Whether the picker is disabled */
+  disabled?: boolean;
+  /** Whether a date is required */
+  required?: boolean;
+  /** Whether the trigger field should take full width of its container */
+  fullWidth?: boolean;
+  /** Options used to format the selected date(s) in the trigger field */
+  formatOptions?: Intl.DateTimeFormatOptions;
+  /** Callback when the popover opens or closes */
+  onOpenChange?: (open: boolean) => void;
+}
+
+/**
+ * DatePicker component props.
+ * Combines the calendar configuration, discriminated by the selection `mode`,
+ * with the props of the trigger field. `TDate` is the date type of the `dateAdapter`.
+ */
+export type IDatePickerProps<TDate = Date> = ICalendarProps<TDate> & IDatePickerFieldProps;
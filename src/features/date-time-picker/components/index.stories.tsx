@@ -0,0 +1,135 @@
+/**
+ * DateTimePicker Component Stories
+ *
+ * This module contains Storybook stories for the DateTimePicker component,
+ * showcasing date and time selection, clocks, bounds and ranges.
+ */
+
+import type { Meta, StoryObj } from "@storybook/react-vite";
+import { useState } from "react";
+
+import DateTimePicker from "../components";
+import type { IDateTimePickerBaseProps } from "../core/types";
+
+/**
+ * Story configuration for the DateTimePicker component
+ * Defines component metadata, documentation, and available controls
+ */
+const meta = {
+  title: "Components/DateTimePicker",
+  component: DateTimePicker,
+  tags: ["autodocs"],
+  parameters: {
+    layout: "centered",
+    docs: {
+      description: {
+        component: `
+A Calendar combined with time of day fields to select a date and a time in one control.
+
+## Features
+- Hour, minute and optional second segments
+- 12 or 24-hour clock following the locale
+- Minute step intervals
+- Date and time bounds through minDate/maxDate
+- Separate start and end times in range mode
+
+## Usage
+\`\`\`tsx
+import { DateTimePicker } from "@mohammadbekran/fancy-ui";
+
+function MyComponent() {
+  const [appointment, setAppointment] = useState<Date>();
+
+  return <DateTimePicker selected={appointment} onSelect={setAppointment} minuteStep={15} />;
+}
+\`\`\`
+        `,
+      },
+    },
+  },
+  argTypes: {
+    locale: {
+      control: "select",
+      options: ["en-US", "fr-FR", "de-DE", "es-ES", "pt-BR"],
+      description: "Locale for date formatting and the default clock",
+    },
+    disabled: {
+      control: "boolean",
+      description: "Whether the picker is disabled",
+    },
+    hourCycle: {
+      control: "select",
+      options: ["h12", "h23"],
+      description: "Clock used by the hour segment, defaults to the locale convention",
+    },
+    minuteStep: {
+      control: "select",
+      options: [1, 5, 10, 15, 30],
+      description: "Interval between the minute options",
+    },
+    showSeconds: {
+      control: "boolean",
+      description: "Whether to show the seconds segment",
+    },
+  },
+} satisfies Meta<typeof DateTimePicker>;
+
+export default meta;
+
+/**
+ * Story type definition for DateTimePicker component stories
+ */
+type TStory = StoryObj<typeof DateTimePicker>;
+
+/**
+ * Default date time picker configuration
+ */
+export const Default: TStory = {};
+
+/**
+ * Appointment slots every 15 minutes, from now on
+ */
+export const Appointment: TStory = {
+  args: {
+    minuteStep: 15,
+    minDate: new Date(),
+  },
+};
+
+/**
+ * 24-hour clock with seconds in a European locale
+ */
+export const WithSeconds: TStory = {
+  args: {
+    locale: "de-DE",
+    showSeconds: true,
+  },
+};
+
+/**
+ * Range with separate start and end times
+ */
+export const WithDateRange: TStory = {
+  args: {
+    mode: "range",
+    minuteStep: 30,
+  },
+};
+
+/**
+ * Date time picker with its value managed by the parent
+ */
+export const Controlled: TStory = {
+  render: (args) => {
+    const [date, setDate] = useState<Date>(new Date());
+
+    return (
+      <DateTimePicker
+        {...(args as IDateTimePickerBaseProps)}
+        mode="single"
+        selected={date}
+        onSelect={setDate}
+      />
+    );
+  },
+};
@@ -0,0 +1,153 @@
+/**
+ * DateTimePicker Component Tests
+ *
+ * This module contains test suites for the DateTimePicker component,
+ * ensuring proper functionality and edge cases are handled correctly.
+ * Tests are organized by feature and include:
+ * - Date and time selection
+ * - 12 and 24-hour clocks and minute steps
+ * - Date and time bounds
+ * - Start and end times of ranges
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { render, screen, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+
+import DateTimePicker from "../components";
+
+// Mock pointer events and scrollIntoView
+Element.prototype.hasPointerCapture = vi.fn();
+Element.prototype.setPointerCapture = vi.fn();
+Element.prototype.releasePointerCapture = vi.fn();
+Element.prototype.scrollIntoView = vi.fn();
+
+describe("DateTimePicker", () => {
+  const mockOnSelect = vi.fn();
+  const initialDate = new Date(2024, 1, 15, 9, 30); // February 15, 2024, 09:30
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const timeField = (name: string) => within(screen.getByRole("group", { name }));
+
+  describe("Date and Time Selection", () => {
+    it("keeps the time when another day is picked", async () => {
+      const user = userEvent.setup();
+      render(<DateTimePicker selected={initialDate} onSelect={mockOnSelect} />);
+
+      await user.click(screen.getByRole("button", { name: "Tuesday, February 20, 2024" }));
+
+      expect(mockOnSelect).toHaveBeenCalledWith(new Date(2024, 1, 20, 9, 30));
+    });
+
+    it("changes the time with the hour and minute segments", async () => {
+      const user = userEvent.setup();
+      render(
+        <DateTimePicker
+          defaultSelected={initialDate}
+          locale="de-DE"
+          minuteStep={15}
+          onSelect={mockOnSelect}
+        />
+      );
+
+      await user.click(timeField("Time").getByRole("combobox", { name: "Hours" }));
+      await user.click(screen.getByRole("option", { name: "14" }));
+      expect(mockOnSelect).toHaveBeenLastCalledWith(new Date(2024, 1, 15, 14, 30));
+
+      await user.click(timeField("Time").getByRole("combobox", { name: "Minutes" }));
+      expect(screen.getAllByRole("option").map((option) => option.textContent)).toEqual([
+        "00",
+        "15",
+        "30",
+        "45",
+      ]);
+      await user.click(screen.getByRole("option", { name: "45" }));
+      expect(mockOnSelect).toHaveBeenLastCalledWith(new Date(2024, 1, 15, 14, 45));
+    });
+
+    it("clamps minute steps to whole minutes from 1 to 60", async () => {
+      const user = userEvent.setup();
+      render(<DateTimePicker defaultSelected={initialDate} minuteStep={0} />);
+
+      await user.click(timeField("Time").getByRole("combobox", { name: "Minutes" }));
+      expect(screen.getAllByRole("option")).toHaveLength(60);
+    });
+
+    it("disables the time segments until a date is selected", () => {
+      render(<DateTimePicker showSeconds />);
+
+      ["Hours", "Minutes", "Seconds", "AM/PM"].forEach((name) =>
+        expect(timeField("Time").getByRole("combobox", { name })).toBeDisabled()
+      );
+    });
+  });
+
+  describe("Hour Cycle", () => {
+    it("uses a 12-hour clock with AM/PM for en-US", async () => {
+      const user = userEvent.setup();
+      render(<DateTimePicker selected={initialDate} onSelect={mockOnSelect} />);
+
+      expect(timeField("Time").getByRole("combobox", { name: "Hours" })).toHaveTextContent("9");
+      await user.click(timeField("Time").getByRole("combobox", { name: "AM/PM" }));
+      await user.click(screen.getByRole("option", { name: "PM" }));
+
+      expect(mockOnSelect).toHaveBeenLastCalledWith(new Date(2024, 1, 15, 21, 30));
+    });
+
+    it("uses a 24-hour clock without AM/PM for de-DE", () => {
+      render(<DateTimePicker selected={initialDate} locale="de-DE" />);
+
+      expect(timeField("Time").getByRole("combobox", { name: "Hours" })).toHaveTextContent("09");
+      expect(timeField("Time").queryByRole("combobox", { name: "AM/PM" })).not.toBeInTheDocument();
+    });
+  });
+
+  describe("Bounds", () => {
+    it("disables hours before minDate and clamps picked days to it", async () => {
+      const user = userEvent.setup();
+      render(
+        <DateTimePicker
+          defaultSelected={new Date(2024, 1, 16, 8, 0)}
+          hourCycle="h23"
+          minDate={new Date(2024, 1, 15, 10, 30)}
+          onSelect={mockOnSelect}
+        />
+      );
+
+      await user.click(screen.getByRole("button", { name: "Thursday, February 15, 2024" }));
+      expect(mockOnSelect).toHaveBeenLastCalledWith(new Date(2024, 1, 15, 10, 30));
+
+      await user.click(timeField("Time").getByRole("combobox", { name: "Hours" }));
+      expect(screen.getByRole("option", { name: "09" })).toHaveAttribute("data-disabled");
+      expect(screen.getByRole("option", { name: "10" })).not.toHaveAttribute("data-disabled");
+    });
+  });
+
+  describe("Range Selection", () => {
+    it("keeps separate start and end times", async () => {
+      const user = userEvent.setup();
+      render(
+        <DateTimePicker
+          mode="range"
+          hourCycle="h23"
+          selected={{ from: new Date(2024, 1, 10, 9, 0), to: new Date(2024, 1, 12, 17, 0) }}
+          onSelect={mockOnSelect}
+        />
+      );
+
+      await user.click(timeField("End time").getByRole("combobox", { name: "Hours" }));
+      await user.click(screen.getByRole("option", { name: "18" }));
+
+      expect(mockOnSelect).toHaveBeenLastCalledWith({
+        from: new Date(2024, 1, 10, 9, 0),
+        to: new Date(2024, 1, 12, 18, 0),
+      });
+      expect(timeField("Start time").getByRole("combobox", { name: "Hours" })).toHaveTextContent(
+        "09"
+      );
+    });
+  });
+});
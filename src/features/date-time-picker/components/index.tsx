@@ -0,0 +1,144 @@
+import { useMemo, useState } from "react";
+
+import { useDirection } from "../../../core/direction";
+import { cn } from "../../../core/utils";
+import Calendar from "../../calendar/components";
+import type { ICalendarProps, IDateRange, SelectedDate } from "../../calendar/core/types";
+import { isDateRange, startOfDay } from "../../calendar/core/utils";
+import type { IDateTimePickerProps } from "../core/types";
+import { clampDate, getLocaleHourCycle, getTime, setTime } from "../core/utils";
+import TimeField from "./time-field";
+
+/**
+ * DateTimePicker Component
+ *
+ * Combines a Calendar with time of day fields to select a date and a time
+ * (or a range with a start and an end time) in one control.
+ *
+ * Features:
+ * - Hour, minute and optional second segments
+ * - 12 or 24-hour clock following the locale
+ * - Minute step intervals
+ * - Date and time bounds through minDate/maxDate
+ * - Separate start and end times in range mode
+ * - Keeps the chosen time when picking another day
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <DateTimePicker
+ *   selected={appointment}
+ *   onSelect={setAppointment}
+ *   minuteStep={15}
+ *   minDate={new Date()}
+ * />
+ * ```
+ */
+const DateTimePicker = (props: IDateTimePickerProps) => {
+  const {
+    selected,
+    defaultSelected,
+    onSelect,
+    hourCycle: hourCycleProp,
+    minuteStep = 1,
+    showSeconds = false,
+    minDate,
+    maxDate,
+    classNames,
+    locale = "en-US",
+    disabled,
+    mode = "single",
+    ...calendarProps
+  } = props;
+
+  const dir = useDirection();
+  const hourCycle = hourCycleProp ?? getLocaleHourCycle(locale);
+  const [uncontrolledValue, setValue] = useState<Date | IDateRange | undefined>(defaultSelected);
+
+  // The value is controlled by passing `selected`, even as undefined to clear it
+  const value = "selected" in props ? selected : uncontrolledValue;
+
+  const emitSelect = (newValue: Date | IDateRange) => {
+    setValue(newValue);
+    (onSelect as ((value: Date | IDateRange) => void) | undefined)?.(newValue);
+  };
+
+  // Days picked in the calendar keep the time of the current value
+  const handleDaySelect = (selection: SelectedDate) => {
+    const withTime = (date: Date, previous?: Date) =>
+      clampDate(previous ? setTime(date, getTime(previous)) : startOfDay(date), minDate, maxDate);
+
+    if (selection instanceof Date) {
+      emitSelect(withTime(selection, value instanceof Date ? value : undefined));
+    } else if (isDateRange(selection)) {
+      const range = isDateRange(value) ? value : undefined;
+      const from = withTime(selection.from, range?.from);
+      const to = withTime(selection.to, range?.to);
+      emitSelect({ from, to: to < from ? from : to });
+    }
+  };
+
+  // The calendar works on calendar days, without the time of day
+  const calendarSelected = useMemo(() => {
+    if (value instanceof Date) return startOfDay(value);
+    if (isDateRange(value)) return { from: startOfDay(value.from), to: startOfDay(value.to) };
+    return undefined;
+  }, [value]);
+
+  const timeFieldProps = {
+    hourCycle,
+    minuteStep,
+    showSeconds,
+    minDate,
+    maxDate,
+    locale,
+    disabled,
+    classNames,
+  };
+
+  return (
+    <div dir={dir} className={cn("inline-flex flex-col gap-4", classNames?.root)}>
+      <Calendar
+        {...calendarProps}
+        {...({ mode, selected: calendarSelected, onSelect: handleDaySelect } as ICalendarProps)}
+        classNames={classNames}
+        locale={locale}
+        disabled={disabled}
+        minDate={minDate && startOfDay(minDate)}
+        maxDate={maxDate}
+      />
+      {/* Time of day fields */}
+      <div className={cn("flex flex-wrap items-center gap-4", classNames?.timeFields)}>
+        {mode === "range" ? (
+          <>
+            <TimeField
+              {...timeFieldProps}
+              label="Start time"
+              value={isDateRange(value) ? value.from : undefined}
+              onChange={(from) => {
+                if (!isDateRange(value)) return;
+                emitSelect({ from, to: value.to < from ? from : value.to });
+              }}
+            />
+            <TimeField
+              {...timeFieldProps}
+              label="End time"
+              value={isDateRange(value) ? value.to : undefined}
+              minDate={isDateRange(value) ? value.from : minDate}
+              onChange={(to) => isDateRange(value) && emitSelect({ from: value.from, to })}
+            />
+          </>
+        ) : (
+          <TimeField
+            {...timeFieldProps}
+            label="Time"
+            value={value instanceof Date ? value : undefined}
+            onChange={emitSelect}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DateTimePicker;
@@ -0,0 +1,145 @@
+import { useId } from "react";
+
+import { cn } from "../../../core/utils";
+import CalendarSelect from "../../calendar/components/calendar-select";
+import type { ICalendarSelectOption } from "../../calendar/core/types";
+import type { ITime, ITimeFieldProps } from "../core/types";
+import { clampDate, getDayPeriodLabels, getTime, isSpanInBounds, setTime } from "../core/utils";
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/**
+ * Time of day field with hour, minute, optional second and AM/PM segments.
+ * Options outside of minDate/maxDate are disabled and changes are clamped to them.
+ */
+const TimeField = ({
+  label,
+  value,
+  onChange,
+  hourCycle,
+  minuteStep,
+  showSeconds,
+  minDate,
+  maxDate,
+  locale,
+  disabled,
+  classNames,
+}: ITimeFieldProps) => {
+  const labelId = useId();
+  const time = value ? getTime(value) : { hours: 0, minutes: 0, seconds: 0 };
+  const isH12 = hourCycle === "h12";
+  const period = time.hours < 12 ? 0 : 1;
+
+  // Whether any second between two times of the day lies within the bounds
+  const isInBounds = (start: ITime, end: ITime) =>
+    !value || isSpanInBounds(setTime(value, start), setTime(value, end), minDate, maxDate);
+
+  const handleChange = (changes: Partial<ITime>) => {
+    if (!value) return;
+    onChange(clampDate(setTime(value, { ...time, ...changes }), minDate, maxDate));
+  };
+
+  const hourOptions: ICalendarSelectOption[] = Array.from({ length: isH12 ? 12 : 24 }).map(
+    (_, i) => {
+      const hours = isH12 ? period * 12 + i : i;
+      return {
+        value: i,
+        label: isH12 ? String(i === 0 ? 12 : i) : pad(i),
+        disabled: !isInBounds(
+          { hours, minutes: 0, seconds: 0 },
+          { hours, minutes: 59, seconds: 59 }
+        ),
+      };
+    }
+  );
+
+  // Keep a minute that doesn't fall on a step selectable, with steps from 1 to 60 minutes
+  const step = Math.min(Math.max(Math.round(minuteStep) || 1, 1), 60);
+  const minuteValues = Array.from({ length: Math.ceil(60 / step) }).map((_, i) => i * step);
+  if (!minuteValues.includes(time.minutes)) {
+    minuteValues.push(time.minutes);
+    minuteValues.sort((a, b) => a - b);
+  }
+  const minuteOptions: ICalendarSelectOption[] = minuteValues.map((minutes) => ({
+    value: minutes,
+    label: pad(minutes),
+    disabled: !isInBounds({ ...time, minutes, seconds: 0 }, { ...time, minutes, seconds: 59 }),
+  }));
+
+  const secondOptions: ICalendarSelectOption[] = Array.from({ length: 60 }).map((_, seconds) => ({
+    value: seconds,
+    label: pad(seconds),
+    disabled: !isInBounds({ ...time, seconds }, { ...time, seconds }),
+  }));
+
+  const periodOptions: ICalendarSelectOption[] = getDayPeriodLabels(locale).map(
+    (periodLabel, i) => ({
+      value: i,
+      label: periodLabel,
+      disabled: !isInBounds(
+        { hours: i * 12, minutes: 0, seconds: 0 },
+        { hours: i * 12 + 11, minutes: 59, seconds: 59 }
+      ),
+    })
+  );
+
+  const segmentProps = {
+    className: classNames?.timeSegment,
+    classNames,
+    disabled: disabled || !value,
+  };
+
+  return (
+    <div
+      role="group"
+      aria-labelledby={labelId}
+      className={cn("flex items-center gap-2", classNames?.timeField)}
+    >
+      <span id={labelId} className="text-sm font-medium text-gray-700">
+        {label}
+      </span>
+      <div className="flex items-center gap-0.5">
+        <CalendarSelect
+          {...segmentProps}
+          aria-label="Hours"
+          value={isH12 ? time.hours % 12 : time.hours}
+          options={hourOptions}
+          onValueChange={(hours) => handleChange({ hours: isH12 ? period * 12 + hours : hours })}
+        />
+        <span aria-hidden="true">:</span>
+        <CalendarSelect
+          {...segmentProps}
+          aria-label="Minutes"
+          value={time.minutes}
+          options={minuteOptions}
+          onValueChange={(minutes) => handleChange({ minutes })}
+        />
+        {showSeconds && (
+          <>
+            <span aria-hidden="true">:</span>
+            <CalendarSelect
+              {...segmentProps}
+              aria-label="Seconds"
+              value={time.seconds}
+              options={secondOptions}
+              onValueChange={(seconds) => handleChange({ seconds })}
+            />
+          </>
+        )}
+        {isH12 && (
+          <CalendarSelect
+            {...segmentProps}
+            aria-label="AM/PM"
+            value={period}
+            options={periodOptions}
+            onValueChange={(newPeriod) =>
+              handleChange({ hours: (time.hours % 12) + newPeriod * 12 })
+            }
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TimeField;
@@ -0,0 +1,122 @@
+/**
+ * DateTimePicker Component Type Definitions
+ *
+ * This module contains TypeScript type definitions for the DateTimePicker component,
+ * ensuring type safety and providing comprehensive documentation for developers.
+ * The types are designed to be extensible while maintaining strict type checking.
+ */
+
+import type {
+  ICalendarBaseProps,
+  ICalendarClasses,
+  IDateRange,
+} from "../../../calendar/core/types";
+
+/**
+ * Clock used by the hour segment.
+ * - `h12`: 12-hour clock with an AM/PM segment
+ * - `h23`: 24-hour clock
+ */
+export type THourCycle = "h12" | "h23";
+
+/**
+ * Time of day
+ */
+export interface ITime {
+  /** Hours from 0 to 23 */
+  hours: number;
+  /** Minutes from 0 to 59 */
+  minutes: number;
+  /** Seconds from 0 to 59 */
+  seconds: number;
+}
+
+/**
+ * Custom class names for styling the parts of the date time picker.
+ * Extends the calendar class names with the time fields.
+ */
+export interface IDateTimePickerClasses extends ICalendarClasses {
+  /** Container of the time fields */
+  timeFields?: string;
+  /** Time field of a date (start or end time in range mode) */
+  timeField?: string;
+  /** Hour, minute, second and AM/PM dropdowns */
+  timeSegment?: string;
+}
+
+/**
+ * Time field props interface
+ */
+export interface ITimeFieldProps {
+  /** Accessible label of the time field */
+  label: string;
+  /** Date whose time is edited, the field is disabled while undefined */
+  value?: Date;
+  /** Callback with the date at the new time */
+  onChange: (date: Date) => void;
+  /** Clock used by the hour segment */
+  hourCycle: THourCycle;
+  /** Interval between the minute options */
+  minuteStep: number;
+  /** Whether to show the seconds segment */
+  showSeconds: boolean;
+  /** Earliest selectable date and time */
+  minDate?: Date;
+  /** Latest selectable date and time */
+  maxDate?: Date;
+  /** Locale used for the AM/PM labels */
+  locale: string;
+  /** Whether the time field is disabled */
+  disabled?: boolean;
+  /** Custom class names for the time field parts */
+  classNames?: IDateTimePickerClasses;
+}
+
+/**
+ * Props shared by every date time picker selection mode
+ */
+export interface IDateTimePickerBaseProps
+  extends Omit<ICalendarBaseProps, "classNames" | "timeZone" | "dateAdapter"> {
+  /** Custom class names for styling the calendar and the time fields */
+  classNames?: IDateTimePickerClasses;
+  /** Clock used by the hour segment, defaults to the convention of the locale */
+  hourCycle?: THourCycle;
+  /** Interval between the minute options, e.g. 15 for quarter hours, from 1 to 60 */
+  minuteStep?: number;
+  /** Whether to show the seconds segment */
+  showSeconds?: boolean;
+}
+
+/**
+ * DateTimePicker props for selecting a single date and time
+ */
+export interface IDateTimePickerSingleProps extends IDateTimePickerBaseProps {
+  /** Selection mode of the picker */
+  mode?: "single";
+  /** Selected date and time, to control the value. Pass `undefined` to clear it */
+  selected?: Date;
+  /** Initially selected date and time when `selected` is not controlled */
+  defaultSelected?: Date;
+  /** Callback when the date or the time changes */
+  onSelect?: (date: Date) => void;
+}
+
+/**
+ * DateTimePicker props for selecting a range with a start and an end time
+ */
+export interface IDateTimePickerRangeProps extends IDateTimePickerBaseProps {
+  /** Selection mode of the picker */
+  mode: "range";
+  /** Selected range, each end with its own time. Pass `undefined` to clear it */
+  selected?: IDateRange;
+  /** Initially selected range when `selected` is not controlled */
+  defaultSelected?: IDateRange;
+  /** Callback when a date or a time of the range changes */
+  onSelect?: (range: IDateRange) => void;
+}
+
+/**
+ * DateTimePicker component props, discriminated by the selection `mode`.
+ * `minDate` and `maxDate` bound the time as well as the date.
+ */
+export type IDateTimePickerProps = IDateTimePickerSingleProps | IDateTimePickerRangeProps;
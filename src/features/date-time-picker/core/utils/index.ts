@@ -0,0 +1,88 @@
+/**
+ * DateTimePicker Utility Functions
+ *
+ * This module contains the time-of-day helpers used by the DateTimePicker component.
+ * Helpers never mutate their arguments.
+ */
+
+import type { ITime, THourCycle } from "../types";
+
+/**
+ * Returns the clock used by a locale.
+ *
+ * @param locale - BCP 47 locale tag
+ * @returns `h12` for locales using AM/PM, `h23` otherwise
+ *
+ * @example
+ * ```ts
+ * getLocaleHourCycle("en-US") // "h12"
+ * getLocaleHourCycle("de-DE") // "h23"
+ * ```
+ */
+export const getLocaleHourCycle = (locale: string): THourCycle => {
+  // `hourCycle` is missing from the resolved options type of older TypeScript libs
+  const { hourCycle, hour12 } = new Intl.DateTimeFormat(locale, {
+    hour: "numeric",
+  }).resolvedOptions() as Intl.ResolvedDateTimeFormatOptions & { hourCycle?: string };
+  return hourCycle === "h11" || hourCycle === "h12" || (!hourCycle && hour12) ? "h12" : "h23";
+};
+
+/**
+ * Returns the localized AM and PM labels of a locale.
+ *
+ * @param locale - BCP 47 locale tag
+ * @returns The AM and PM labels
+ */
+export const getDayPeriodLabels = (locale: string): [string, string] => {
+  const formatter = new Intl.DateTimeFormat(locale, { hour: "numeric", hour12: true });
+  const getLabel = (hours: number) =>
+    formatter.formatToParts(new Date(2000, 0, 1, hours)).find(({ type }) => type === "dayPeriod")
+      ?.value ?? (hours < 12 ? "AM" : "PM");
+  return [getLabel(0), getLabel(12)];
+};
+
+/**
+ * Returns the time of day of a date.
+ */
+export const getTime = (date: Date): ITime => {
+  return { hours: date.getHours(), minutes: date.getMinutes(), seconds: date.getSeconds() };
+};
+
+/**
+ * Returns a copy of the date at the given time of day.
+ *
+ * @param date - Date to copy
+ * @param time - Time of day to set
+ * @returns The date at the given time
+ */
+export const setTime = (date: Date, { hours, minutes, seconds }: ITime) => {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), hours, minutes, seconds);
+};
+
+/**
+ * Clamps a date to the given bounds.
+ *
+ * @param date - Date to clamp
+ * @param minDate - Earliest allowed date and time
+ * @param maxDate - Latest allowed date and time
+ * @returns The date, moved within the bounds when outside of them
+ */
+export const clampDate = (date: Date, minDate?: Date, maxDate?: Date) => {
+  if (minDate && date < minDate) return new Date(minDate);
+  if (maxDate && date > maxDate) return new Date(maxDate);
+  return date;
+};
+
+/**
+ * Checks whether a span of time overlaps the given bounds.
+ * Used to disable time options that can't produce a valid date.
+ *
+ * @param start - Start of the span
+ * @param end - End of the span (inclusive)
+ * @param minDate - Earliest allowed date and time
+ * @param maxDate - Latest allowed date and time
+ * @returns Whether part of the span lies within the bounds
+ */
+export const isSpanInBounds = (start: Date, end: Date, minDate?: Date, maxDate?: Date) => {
+  return !(minDate && end < minDate) && !(maxDate && start > maxDate);
+};
@@ -0,0 +1,110 @@
+/**
+ * Form Component Stories
+ *
+ * This module contains Storybook stories for the Form component,
+ * showcasing submission, validation on submit and server-side errors.
+ */
+
+import type { Meta, StoryObj } from "@storybook/react-vite";
+
+import Button from "../../button/components";
+import Input from "../../input/components";
+import Form from "../components";
+
+/**
+ * Story configuration for the Form component
+ * Defines component metadata, documentation, and available controls
+ */
+const meta = {
+  title: "Components/Form",
+  component: Form,
+  tags: ["autodocs"],
+  parameters: {
+    layout: "centered",
+    docs: {
+      description: {
+        component: `
+A form built on Radix Form that Input fields register with by name.
+
+## Features
+- Values of the fields passed to \`onSubmit\`, keyed by name
+- Validation of every field on submit, focusing the first invalid one
+- Server-side errors returned by \`onSubmit\` shown on their fields
+- Errors and submitting state for render function children
+
+## Usage
+\`\`\`tsx
+import { Form, Input, Button } from "@mohammadbekran/fancy-ui";
+
+function SignUp() {
+  return (
+    <Form<{ email: string }> onSubmit={(values) => api.signUp(values)}>
+      {({ isSubmitting }) => (
+        <>
+          <Input name="email" label="Email" validationType="email" required />
+          <Button type="submit" isLoading={isSubmitting}>Sign up</Button>
+        </>
+      )}
+    </Form>
+  );
+}
+\`\`\`
+        `,
+      },
+    },
+  },
+} satisfies Meta<typeof Form>;
+
+export default meta;
+
+/**
+ * Story type definition for Form component stories
+ */
+type TStory = StoryObj<typeof Form>;
+
+/**
+ * Sign up form with a simulated server rejecting the username "admin"
+ */
+export const Default: TStory = {
+  args: {
+    onSubmit: (values) =>
+      new Promise((resolve) =>
+        setTimeout(
+          () => resolve(values.username === "admin" ? { username: "Username is taken" } : {}),
+          1000
+        )
+      ),
+    children: ({ isSubmitting }) => (
+      <>
+        <Input name="email" label="Email" type="email" validationType="email" required />
+        <Input
+          name="username"
+          label="Username"
+          validationType="username"
+          validateOn="onTouched"
+          helperText='Try "admin"'
+          required
+        />
+        <Button type="submit" isLoading={isSubmitting}>
+          Sign up
+        </Button>
+      </>
+    ),
+  },
+};
+
+/**
+ * Fields validated only once the form is submitted
+ */
+export const ValidateOnSubmit: TStory = {
+  args: {
+    onSubmit: () => {},
+    children: (
+      <>
+        <Input name="name" label="Name" validateOn="onSubmit" required />
+        <Input name="zip" label="ZIP code" mask="postalCode" validationType="postalCode" />
+        <Button type="submit">Save</Button>
+      </>
+    ),
+  },
+};
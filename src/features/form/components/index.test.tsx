@@ -0,0 +1,301 @@
+/**
+ * Form Component Tests
+ *
+ * This module contains test suites for the Form component,
+ * ensuring proper functionality and edge cases are handled correctly.
+ * Tests are organized by feature and include:
+ * - Field registration and submitted values
+ * - Validation of every field on submit
+ * - Asynchronous validation of the fields on submit
+ * - Server-side and controlled errors
+ * - Schema validation
+ * - Submitting state and errors thrown while submitting
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+
+import type { IStandardSchema } from "../../../core/schema";
+import Button from "../../button/components";
+import Input from "../../input/components";
+import Form from "../components";
+import type { TFormValues } from "../core/types";
+
+describe("Form", () => {
+  const mockOnSubmit = vi.fn();
+  const field = (name: string) => screen.getByRole("textbox", { name });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const renderSignUpForm = (props: Partial<React.ComponentProps<typeof Form>> = {}) =>
+    render(
+      <Form aria-label="Sign up" onSubmit={mockOnSubmit} {...props}>
+        {({ errors, isSubmitting }) => (
+          <>
+            <Input name="email" label="Email" validationType="email" required />
+            <Input name="username" label="Username" validationType="username" />
+            <p data-testid="errors">{Object.keys(errors).join(", ")}</p>
+            <Button type="submit" isLoading={isSubmitting}>
+              Sign up
+            </Button>
+          </>
+        )}
+      </Form>
+    );
+
+  describe("Submission", () => {
+    it("submits the values of the registered fields", async () => {
+      const user = userEvent.setup();
+      renderSignUpForm();
+
+      await user.type(field("Email"), "jane@example.com");
+      await user.type(field("Username"), "jane");
+      await user.click(screen.getByRole("button", { name: "Sign up" }));
+
+      expect(mockOnSubmit).toHaveBeenCalledWith({ email: "jane@example.com", username: "jane" });
+    });
+
+    it("exposes the submitting state until onSubmit resolves", async () => {
+      const user = userEvent.setup();
+      let resolveSubmit: () => void = () => {};
+      renderSignUpForm({
+        onSubmit: () => new Promise<void>((resolve) => (resolveSubmit = resolve)),
+      });
+
+      await user.type(field("Email"), "jane@example.com");
+      await user.click(screen.getByRole("button", { name: "Sign up" }));
+
+      expect(screen.getByRole("form", { name: "Sign up" })).toHaveAttribute("aria-busy", "true");
+      expect(screen.getByRole("button", { name: /Sign up/ })).toBeDisabled();
+
+      resolveSubmit();
+      expect(await screen.findByRole("button", { name: "Sign up" })).toBeEnabled();
+      expect(screen.getByRole("form", { name: "Sign up" })).not.toHaveAttribute("aria-busy");
+    });
+
+    it("exposes the error of a rejected onSubmit until the next submit", async () => {
+      const user = userEvent.setup();
+      const onSubmit = vi
+        .fn()
+        .mockRejectedValueOnce(new Error("Network error"))
+        .mockResolvedValueOnce(undefined);
+      render(
+        <Form aria-label="Sign up" onSubmit={onSubmit}>
+          {({ isSubmitting, submitError }) => (
+            <>
+              <Input name="email" label="Email" />
+              {submitError instanceof Error && <p role="alert">{submitError.message}</p>}
+              <Button type="submit" isLoading={isSubmitting}>
+                Sign up
+              </Button>
+            </>
+          )}
+        </Form>
+      );
+
+      await user.click(screen.getByRole("button", { name: "Sign up" }));
+
+      expect(await screen.findByRole("alert")).toHaveTextContent("Network error");
+      expect(screen.getByRole("button", { name: "Sign up" })).toBeEnabled();
+      expect(screen.getByRole("form", { name: "Sign up" })).not.toHaveAttribute("aria-busy");
+
+      await user.click(screen.getByRole("button", { name: "Sign up" }));
+
+      await waitFor(() => expect(screen.queryByRole("alert")).not.toBeInTheDocument());
+      expect(onSubmit).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("Validation", () => {
+    it("validates every field and focuses the first invalid one", async () => {
+      const user = userEvent.setup();
+      renderSignUpForm();
+
+      await user.type(field("Username"), "j");
+      await user.click(screen.getByRole("button", { name: "Sign up" }));
+
+      expect(mockOnSubmit).not.toHaveBeenCalled();
+      expect(screen.getByText("This field is required")).toBeInTheDocument();
+      expect(field("Username")).toHaveAttribute("aria-invalid", "true");
+      expect(field("Email")).toHaveFocus();
+      expect(screen.getByTestId("errors")).toHaveTextContent("email, username");
+    });
+
+    it("validates fields that hide errors until submit", async () => {
+      const user = userEvent.setup();
+      render(
+        <Form onSubmit={mockOnSubmit}>
+          <Input name="email" label="Email" validationType="email" validateOn="onSubmit" />
+          <Button type="submit">Save</Button>
+        </Form>
+      );
+
+      await user.type(field("Email"), "jane");
+      expect(field("Email")).toHaveAttribute("aria-invalid", "false");
+
+      await user.click(screen.getByRole("button", { name: "Save" }));
+
+      expect(field("Email")).toHaveAttribute("aria-invalid", "true");
+      expect(mockOnSubmit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Asynchronous Validation", () => {
+    const checkUsername = vi.fn(async (value: string) =>
+      value === "taken" ? "Username is taken" : undefined
+    );
+
+    const renderUsernameForm = (props: Partial<React.ComponentProps<typeof Input>> = {}) =>
+      render(
+        <Form onSubmit={mockOnSubmit}>
+          <Input
+            name="username"
+            label="Username"
+            asyncValidation={checkUsername}
+            asyncValidationDebounce={1000}
+            {...props}
+          />
+          <Button type="submit">Save</Button>
+        </Form>
+      );
+
+    it("waits for the pending check of a field before submitting", async () => {
+      const user = userEvent.setup();
+      renderUsernameForm();
+
+      await user.type(field("Username"), "taken");
+      await user.click(screen.getByRole("button", { name: "Save" }));
+
+      expect(await screen.findByText("Username is taken")).toBeInTheDocument();
+      expect(field("Username")).toHaveFocus();
+      expect(mockOnSubmit).not.toHaveBeenCalled();
+
+      await user.clear(field("Username"));
+      await user.type(field("Username"), "jane");
+      await user.click(screen.getByRole("button", { name: "Save" }));
+
+      await waitFor(() => expect(mockOnSubmit).toHaveBeenCalledWith({ username: "jane" }));
+    });
+
+    it("runs the check of fields validated on submit", async () => {
+      const user = userEvent.setup();
+      renderUsernameForm({ validateOn: "onSubmit" });
+
+      await user.type(field("Username"), "taken");
+      expect(checkUsername).not.toHaveBeenCalled();
+
+      await user.click(screen.getByRole("button", { name: "Save" }));
+
+      expect(await screen.findByText("Username is taken")).toBeInTheDocument();
+      expect(checkUsername).toHaveBeenCalledWith("taken", expect.any(AbortSignal));
+      expect(mockOnSubmit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Errors", () => {
+    it("shows server-side errors on their fields until edited", async () => {
+      const user = userEvent.setup();
+      renderSignUpForm({ onSubmit: async () => ({ username: "Username is taken" }) });
+
+      await user.type(field("Email"), "jane@example.com");
+      await user.type(field("Username"), "jane");
+      await user.click(screen.getByRole("button", { name: "Sign up" }));
+
+      expect(await screen.findByText("Username is taken")).toBeInTheDocument();
+      expect(field("Username")).toHaveAttribute("aria-invalid", "true");
+      expect(field("Username")).toHaveFocus();
+      expect(screen.getByTestId("errors")).toHaveTextContent("username");
+
+      await user.type(field("Username"), "2");
+
+      expect(screen.queryByText("Username is taken")).not.toBeInTheDocument();
+      expect(screen.getByTestId("errors")).toBeEmptyDOMElement();
+    });
+
+    it("shows errors controlled by the parent", () => {
+      renderSignUpForm({ errors: { email: "Email is already registered" } });
+
+      expect(screen.getByText("Email is already registered")).toBeInTheDocument();
+      expect(field("Email")).toHaveAttribute("aria-invalid", "true");
+    });
+  });
+
+  describe("Schema", () => {
+    // Object schema rejecting reserved usernames asynchronously
+    const signUpSchema: IStandardSchema<TFormValues> = {
+      "~standard": {
+        version: 1,
+        vendor: "test",
+        validate: async (value) => {
+          const { username } = value as TFormValues;
+          return username === "admin"
+            ? { issues: [{ message: "Username is reserved", path: [{ key: "username" }] }] }
+            : { value: value as TFormValues };
+        },
+      },
+    };
+
+    it("shows schema issues on their fields and blocks submission", async () => {
+      const user = userEvent.setup();
+      renderSignUpForm({ schema: signUpSchema });
+
+      await user.type(field("Email"), "jane@example.com");
+      await user.type(field("Username"), "admin");
+      await user.click(screen.getByRole("button", { name: "Sign up" }));
+
+      expect(await screen.findByText("Username is reserved")).toBeInTheDocument();
+      expect(field("Username")).toHaveAttribute("aria-invalid", "true");
+      expect(field("Username")).toHaveFocus();
+      expect(mockOnSubmit).not.toHaveBeenCalled();
+
+      await user.clear(field("Username"));
+      await user.type(field("Username"), "jane");
+      await user.click(screen.getByRole("button", { name: "Sign up" }));
+
+      await waitFor(() =>
+        expect(mockOnSubmit).toHaveBeenCalledWith({ email: "jane@example.com", username: "jane" })
+      );
+    });
+
+    it("waits for the asynchronous schema of a field", async () => {
+      const user = userEvent.setup();
+      const codeSchema: IStandardSchema<string> = {
+        "~standard": {
+          version: 1,
+          vendor: "test",
+          validate: async (value) =>
+            value === "bad" ? { issues: [{ message: "Unknown code" }] } : { value: String(value) },
+        },
+      };
+      render(
+        <Form onSubmit={mockOnSubmit}>
+          <Input name="code" label="Code" schema={codeSchema} asyncValidationDebounce={1000} />
+          <Button type="submit">Save</Button>
+        </Form>
+      );
+
+      await user.type(field("Code"), "bad");
+      await user.click(screen.getByRole("button", { name: "Save" }));
+
+      expect(await screen.findByText("Unknown code")).toBeInTheDocument();
+      expect(field("Code")).toHaveAttribute("aria-invalid", "true");
+      expect(mockOnSubmit).not.toHaveBeenCalled();
+    });
+
+    it("keeps the built-in validation of the fields", async () => {
+      const user = userEvent.setup();
+      renderSignUpForm({ schema: signUpSchema });
+
+      await user.type(field("Email"), "jane");
+      await user.type(field("Username"), "admin");
+      await user.click(screen.getByRole("button", { name: "Sign up" }));
+
+      expect(await screen.findByText("Username is reserved")).toBeInTheDocument();
+      expect(field("Email")).toHaveAttribute("aria-invalid", "true");
+      expect(field("Email")).toHaveFocus();
+    });
+  });
+});
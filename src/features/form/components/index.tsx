@@ -0,0 +1,163 @@
+import * as RadixForm from "@radix-ui/react-form";
+import React, { useCallback, useMemo, useRef, useState } from "react";
+
+import { useDirection } from "../../../core/direction";
+import { getSchemaErrors } from "../../../core/schema";
+import { cn } from "../../../core/utils";
+import { FormContext } from "../core/context";
+import type { IFormContext, IFormField, IFormProps, TFormErrors, TFormValues } from "../core/types";
+
+/**
+ * Form Component
+ *
+ * A form built on Radix Form that the Input fields inside it register with by name.
+ * It validates every field on submit and passes the collected values to `onSubmit`.
+ *
+ * Features:
+ * - Field registry, values keyed by field name
+ * - Validation of every field on submit, focusing the first invalid one
+ * - Validation of the values with a Standard Schema, e.g. from Zod or Valibot
+ * - Typed values passed to `onSubmit`
+ * - Server-side errors returned by `onSubmit` shown on their fields
+ * - Form-level errors and submitting state for render function children
+ * - Errors thrown while submitting exposed as the submit error
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <Form<{ email: string }> onSubmit={async (values) => (await save(values)).errors}>
+ *   {({ isSubmitting }) => (
+ *     <>
+ *       <Input name="email" label="Email" validationType="email" required />
+ *       <Button type="submit" isLoading={isSubmitting}>Save</Button>
+ *     </>
+ *   )}
+ * </Form>
+ * ```
+ */
+const Form = <TValues extends TFormValues = TFormValues>({
+  onSubmit,
+  schema,
+  errors: controlledErrors,
+  children,
+  className,
+  ...props
+}: IFormProps<TValues>) => {
+  const fields = useRef(new Set<IFormField>());
+  const [validationErrors, setValidationErrors] = useState<TFormErrors<TValues>>({});
+  const [submitErrors, setSubmitErrors] = useState<TFormErrors<TValues>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<unknown>();
+  const dir = useDirection();
+
+  const registerField = useCallback((field: IFormField) => {
+    fields.current.add(field);
+    return () => {
+      fields.current.delete(field);
+    };
+  }, []);
+
+  // Remove the errors of an edited field, keeping the state unchanged when it has none
+  const clearError = useCallback((name: string) => {
+    const omitField = (errors: TFormErrors<TValues>) => {
+      if (!(name in errors)) return errors;
+      const rest = { ...errors };
+      delete rest[name as keyof TFormErrors<TValues>];
+      return rest;
+    };
+    setValidationErrors(omitField);
+    setSubmitErrors(omitField);
+  }, []);
+
+  // Errors shown on the fields besides their own validation errors
+  const fieldErrors = useMemo(
+    () => ({ ...submitErrors, ...controlledErrors }),
+    [controlledErrors, submitErrors]
+  );
+
+  const context = useMemo<IFormContext>(
+    () => ({ registerField, errors: fieldErrors, clearError }),
+    [clearError, fieldErrors, registerField]
+  );
+
+  // Focus the first field of the document with an error
+  const focusFirstError = (fields: IFormField[], errors: TFormErrors) => {
+    fields.find((field) => errors[field.name])?.input.focus();
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (isSubmitting) return;
+
+    // Validate the enabled fields in document order
+    const registered = [...fields.current]
+      .filter(({ input }) => !input.disabled)
+      .sort((a, b) =>
+        a.input.compareDocumentPosition(b.input) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1
+      );
+    const values = Object.fromEntries(
+      registered.map(({ name, input }) => [name, input.value])
+    ) as TValues;
+    const validations = registered.map((field) => field.validate());
+
+    setSubmitErrors({});
+    setSubmitError(undefined);
+    setIsSubmitting(true);
+    try {
+      // Wait for the asynchronous validation of the fields
+      const messages = await Promise.all(validations);
+      const errors: TFormErrors = {};
+      registered.forEach(({ name }, index) => {
+        if (messages[index]) errors[name] = messages[index];
+      });
+
+      // Issues of the schema are shown on the fields without errors of their own
+      const issues = schema ? await getSchemaErrors(schema, values) : {};
+      const schemaErrors = Object.fromEntries(
+        Object.entries(issues).filter(([name]) => !errors[name])
+      ) as TFormErrors<TValues>;
+      const allErrors = { ...errors, ...schemaErrors };
+
+      setValidationErrors(errors as TFormErrors<TValues>);
+      setSubmitErrors(schemaErrors);
+      if (Object.keys(allErrors).length > 0) {
+        focusFirstError(registered, allErrors);
+        return;
+      }
+
+      const result = await onSubmit?.(values);
+      if (result) {
+        setSubmitErrors(result);
+        focusFirstError(registered, result);
+      }
+    } catch (error) {
+      // Keep a failed submission, e.g. a network error, in the state instead of rejecting
+      setSubmitError(error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const state = {
+    errors: { ...validationErrors, ...fieldErrors },
+    isSubmitting,
+    submitError,
+  };
+
+  return (
+    <FormContext.Provider value={context}>
+      <RadixForm.Root
+        dir={dir}
+        noValidate
+        aria-busy={isSubmitting || undefined}
+        className={cn("flex flex-col gap-4", className)}
+        {...props}
+        onSubmit={handleSubmit}
+      >
+        {typeof children === "function" ? children(state) : children}
+      </RadixForm.Root>
+    </FormContext.Provider>
+  );
+};
+
+export default Form;
@@ -0,0 +1,22 @@
+/**
+ * Form Context
+ *
+ * This module contains the context through which fields register with the
+ * nearest Form, take part in its validation and show its errors.
+ */
+
+import { createContext, useContext } from "react";
+
+import type { IFormContext } from "../types";
+
+/**
+ * Context of the nearest Form, `null` outside of a Form
+ */
+export const FormContext = createContext<IFormContext | null>(null);
+
+/**
+ * Returns the context of the nearest Form.
+ *
+ * @returns The form context, or `null` when the field is not in a Form
+ */
+export const useFormContext = () => useContext(FormContext);
@@ -0,0 +1,87 @@
+/**
+ * Form Component Type Definitions
+ *
+ * This module contains TypeScript type definitions for the Form component,
+ * ensuring type safety and providing comprehensive documentation for developers.
+ * The types are designed to be extensible while maintaining strict type checking.
+ */
+
+import type React from "react";
+
+import type { IStandardSchema } from "../../../../core/schema";
+
+/**
+ * Values of a form, keyed by field name
+ */
+export type TFormValues = Record<string, string>;
+
+/**
+ * Error messages of a form, keyed by field name
+ */
+export type TFormErrors<TValues extends TFormValues = TFormValues> = Partial<
+  Record<keyof TValues & string, string>
+>;
+
+/**
+ * State of a form, passed to render function children
+ */
+export interface IFormState<TValues extends TFormValues = TFormValues> {
+  /** Validation and server errors of the fields */
+  errors: TFormErrors<TValues>;
+  /** Whether `onSubmit` is pending */
+  isSubmitting: boolean;
+  /** Error thrown by `onSubmit` or the schema during the last submit, e.g. a network error */
+  submitError?: unknown;
+}
+
+/**
+ * Form component props interface.
+ * Extends native form attributes while adding field registration and submission.
+ */
+export interface IFormProps<TValues extends TFormValues = TFormValues>
+  extends Omit<React.FormHTMLAttributes<HTMLFormElement>, "onSubmit" | "children"> {
+  /**
+   * Callback with the values of the fields once they are all valid. Errors it returns,
+   * e.g. from the server, are shown on their fields until the fields are edited.
+   */
+  onSubmit?: (
+    values: TValues
+  ) => void | TFormErrors<TValues> | Promise<void | TFormErrors<TValues>>;
+  /**
+   * Schema following the Standard Schema interface, e.g. a Zod object schema shared with
+   * the backend, validating the values on submit. Its issues are shown on the fields
+   * named by the first segment of their paths, after the own errors of the fields.
+   */
+  schema?: IStandardSchema<TValues, unknown>;
+  /** Errors shown on the fields, controlled by the parent */
+  errors?: TFormErrors<TValues>;
+  /** Fields of the form, or a function rendering them from the form state */
+  children: React.ReactNode | ((state: IFormState<TValues>) => React.ReactNode);
+}
+
+/**
+ * Field registered with a form
+ */
+export interface IFormField {
+  /** Name of the field, the key of its value */
+  name: string;
+  /** Input element of the field */
+  input: HTMLInputElement;
+  /**
+   * Validates the field, showing and returning its error message.
+   * Asynchronous validation returns a promise of the message.
+   */
+  validate: () => string | undefined | Promise<string | undefined>;
+}
+
+/**
+ * Context shared by a form with its fields
+ */
+export interface IFormContext {
+  /** Registers a field, returning the function unregistering it */
+  registerField: (field: IFormField) => () => void;
+  /** Errors shown on the fields, besides their own validation errors */
+  errors: TFormErrors;
+  /** Clears the errors of a field, called when the field is edited */
+  clearError: (name: string) => void;
+}
@@ -14,6 +14,7 @@ import * as Form from "@radix-ui/react-form";
 import type { Meta, StoryObj } from "@storybook/react-vite";
 import { useState } from "react";
 
+import MessagesProvider from "../../../components/messages-provider";
 import Button from "../../button/components";
 import Input from "../components";
 
@@ -70,6 +71,9 @@ Built with TypeScript and styled with TailwindCSS.
 - Multiple input types (text, email, password, number, tel, url, search)
 - Password visibility toggle
 - Character count
+- Input masks (phone, card, date, currency and custom patterns)
+- Debounced asynchronous validation
+- Configurable validation timing (onChange, onBlur, onTouched, onSubmit)
 - Loading state
 - Error handling with animations
 - Helper text
@@ -154,6 +158,22 @@ function MyForm() {
         defaultValue: { summary: "false" },
       },
     },
+    validateOn: {
+      control: "select",
+      options: ["all", "onChange", "onBlur", "onTouched", "onSubmit"],
+      description: "When the input is first validated, errors stay hidden until then",
+      table: {
+        defaultValue: { summary: "all" },
+      },
+    },
+    revalidateOn: {
+      control: "select",
+      options: ["onChange", "onBlur", "onSubmit"],
+      description: "When the input is validated again once it has been validated",
+      table: {
+        defaultValue: { summary: "onChange" },
+      },
+    },
     error: {
       control: "text",
       description: "Error message to display below the input",
@@ -263,6 +283,116 @@ export const WithCharacterCount: TStory = {
   },
 };
 
+/**
+ * Input with Masks Story
+ *
+ * Demonstrates values formatted while typing with built-in, pattern and
+ * function masks, along with the raw value reported by onValueChange.
+ */
+export const WithMask: TStory = {
+  render: () => {
+    const [raw, setRaw] = useState("");
+
+    return (
+      <div className="space-y-4">
+        <Input
+          name="phone"
+          label="Phone"
+          mask="phoneUS"
+          validationType="phoneUS"
+          placeholder="(555) 123-4567"
+          helperText={`Raw value: ${raw}`}
+          onValueChange={(_, raw) => setRaw(raw)}
+        />
+        <Input name="card" label="Card number" mask="creditCard" validationType="creditCard" />
+        <Input name="amount" label="Amount" mask="currency" placeholder="$0.00" />
+        <Input name="plate" label="Licence plate" mask="aaa-9999" />
+        <Input name="code" label="Promo code" mask={(raw) => raw.toUpperCase().slice(0, 8)} />
+      </div>
+    );
+  },
+};
+
+/**
+ * Input with Asynchronous Validation Story
+ *
+ * Demonstrates a debounced username availability check. The spinner shows while
+ * the check is pending and its error appears once it resolves.
+ */
+export const WithAsyncValidation: TStory = {
+  args: {
+    name: "username",
+    label: "Username",
+    placeholder: "Try admin or root",
+    helperText: "Checked for availability as you type",
+    asyncValidation: (value: string) =>
+      new Promise((resolve) =>
+        setTimeout(
+          () => resolve(["admin", "root"].includes(value) ? "Username is taken" : undefined),
+          800
+        )
+      ),
+  },
+};
+
+/**
+ * Input with Validation Timing Story
+ *
+ * Shows errors only once the field loses focus, then updates them on every change,
+ * so users are not interrupted while typing.
+ */
+export const WithValidationTiming: TStory = {
+  args: {
+    name: "touched-email",
+    label: "Email",
+    type: "email",
+    validationType: "email",
+    validateOn: "onTouched",
+    placeholder: "Type, then leave the field",
+  },
+};
+
+/**
+ * Input with Schema Validation Story
+ *
+ * Validates with a schema following the Standard Schema interface, as Zod and Valibot
+ * schemas do, showing the message of its first issue.
+ */
+export const WithSchema: TStory = {
+  args: {
+    name: "work-email",
+    label: "Work email",
+    placeholder: "jane@company.com",
+    schema: {
+      "~standard": {
+        version: 1,
+        vendor: "storybook",
+        validate: (value) =>
+          /^[^@\s]+@company\.com$/.test(String(value))
+            ? { value: String(value) }
+            : { issues: [{ message: "Use your @company.com address" }] },
+      },
+    },
+  },
+};
+
+/**
+ * Input with Localized Messages Story
+ *
+ * Shows the bundled French messages of a MessagesProvider, with the required
+ * message overridden to include the label of the field.
+ */
+export const WithLocalizedMessages: TStory = {
+  render: () => (
+    <MessagesProvider locale="fr" messages={{ required: "{label} est obligatoire" }}>
+      <div className="space-y-4 max-w-md">
+        <Input name="nom" label="Nom" required minLength={2} />
+        <Input name="courriel" label="E-mail" type="email" validationType="email" />
+      </div>
+    </MessagesProvider>
+  ),
+};
+
 export const WithLoading: TStory = {
   args: {
     name: "loading",
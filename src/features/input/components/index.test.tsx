@@ -14,13 +14,21 @@
  * - Styling and customization
  * - Error handling
  * - State management
+ * - Input masks
+ * - Asynchronous validation
+ * - Validation timing
+ * - Schema validation
+ * - Localized validation messages
  */
 
 import * as Form from "@radix-ui/react-form";
-import { render, screen } from "@testing-library/react";
+import { render, screen, waitFor } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import { describe, expect, it, vi } from "vitest";
 
+import MessagesProvider from "@/components/messages-provider";
+
+import type { IStandardSchema } from "../../../core/schema";
 import Input from "../components";
 
 /**
@@ -32,6 +40,27 @@ const renderWithForm = (ui: React.ReactElement) => {
   return render(<Form.Root>{ui}</Form.Root>);
 };
 
+/**
+ * Helper function creating a schema following the Standard Schema interface
+ * @param {Function} check - Returns the error message of an invalid value
+ * @param {boolean} [isAsync] - Whether the schema validates asynchronously
+ * @returns {IStandardSchema<string>} The schema
+ */
+const createSchema = (
+  check: (value: string) => string | undefined,
+  isAsync = false
+): IStandardSchema<string> => ({
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate: (value) => {
+      const message = check(String(value));
+      const result = message ? { issues: [{ message }] } : { value: String(value) };
+      return isAsync ? Promise.resolve(result) : result;
+    },
+  },
+});
+
 describe("Input", () => {
   /**
    * Basic Rendering Tests
@@ -103,7 +132,7 @@ describe("Input", () => {
    */
   it("shows loading state", () => {
     renderWithForm(<Input name="test" isLoading />);
-    expect(screen.getByRole("textbox")).toHaveClass("pr-10");
+    expect(screen.getByRole("textbox")).toHaveClass("pe-10");
   });
 
   /**
@@ -205,6 +234,295 @@ describe("Input", () => {
     expect(input).toHaveAttribute("aria-invalid", "false");
   });
 
+  /**
+   * Input Mask Tests
+   * Verifies formatting while typing, caret positions and raw values
+   */
+  it("formats a pattern mask while typing", async () => {
+    const handleValueChange = vi.fn();
+    renderWithForm(<Input name="phone" mask="(999) 999-9999" onValueChange={handleValueChange} />);
+
+    const input = screen.getByRole("textbox");
+    await userEvent.type(input, "555x1234567890");
+
+    expect(input).toHaveValue("(555) 123-4567");
+    expect(handleValueChange).toHaveBeenLastCalledWith("(555) 123-4567", "5551234567");
+  });
+
+  it("applies built-in masks and validates their raw values", async () => {
+    renderWithForm(
+      <>
+        <Input name="card" label="Card" mask="creditCard" validationType="creditCard" />
+        <Input name="amount" label="Amount" mask="currency" />
+      </>
+    );
+
+    const card = screen.getByLabelText("Card");
+    await userEvent.type(card, "378282246310005");
+    expect(card).toHaveValue("3782 822463 10005");
+    expect(card).toHaveAttribute("aria-invalid", "false");
+
+    const amount = screen.getByLabelText("Amount");
+    await userEvent.type(amount, "123456");
+    expect(amount).toHaveValue("$1,234.56");
+  });
+
+  it("applies function masks", async () => {
+    renderWithForm(<Input name="code" mask={(raw) => raw.toUpperCase().slice(0, 4)} />);
+
+    const input = screen.getByRole("textbox");
+    await userEvent.type(input, "ab-12c");
+
+    expect(input).toHaveValue("AB12");
+  });
+
+  it("keeps the caret after the edited character", async () => {
+    renderWithForm(<Input name="phone" mask="phoneUS" />);
+
+    const input = screen.getByRole<HTMLInputElement>("textbox");
+    await userEvent.type(input, "555123456");
+    expect(input).toHaveValue("(555) 123-456");
+
+    // Insert a digit after "(555) 12", the caret lands after the following separator
+    await userEvent.type(input, "9", { initialSelectionStart: 8, initialSelectionEnd: 8 });
+    expect(input).toHaveValue("(555) 129-3456");
+    expect(input.selectionStart).toBe(10);
+
+    // Backspace over a separator deletes the digit before it
+    await userEvent.type(input, "{Backspace}", {
+      initialSelectionStart: 6,
+      initialSelectionEnd: 6,
+    });
+    expect(input).toHaveValue("(551) 293-456");
+    expect(input.selectionStart).toBe(3);
+  });
+
+  it("formats pasted values", async () => {
+    const user = userEvent.setup();
+    renderWithForm(<Input name="ssn" mask="socialSecurity" />);
+
+    await user.click(screen.getByRole("textbox"));
+    await user.paste("123 45 6789");
+
+    expect(screen.getByRole("textbox")).toHaveValue("123-45-6789");
+  });
+
+  /**
+   * Asynchronous Validation Tests
+   * Verifies debouncing, cancellation of stale checks and the validating state
+   */
+  it("debounces asynchronous validation and shows its error once resolved", async () => {
+    let resolveCheck: (message?: string) => void = () => {};
+    const asyncValidation = vi.fn(
+      () => new Promise<string | undefined>((resolve) => (resolveCheck = resolve))
+    );
+    renderWithForm(
+      <Input name="username" asyncValidation={asyncValidation} asyncValidationDebounce={20} />
+    );
+
+    const input = screen.getByRole("textbox");
+    await userEvent.type(input, "taken");
+
+    await waitFor(() => expect(input).toHaveAttribute("aria-busy", "true"));
+    expect(asyncValidation).toHaveBeenCalledTimes(1);
+    expect(asyncValidation).toHaveBeenCalledWith("taken", expect.any(AbortSignal));
+    expect(input).toHaveAttribute("aria-invalid", "false");
+    expect(input).toBeEnabled();
+
+    resolveCheck("Username is taken");
+
+    expect(await screen.findByText("Username is taken")).toBeInTheDocument();
+    expect(input).toHaveAttribute("aria-invalid", "true");
+    expect(input).not.toHaveAttribute("aria-busy");
+  });
+
+  it("cancels stale asynchronous checks", async () => {
+    const checks: { value: string; signal: AbortSignal; resolve: (message?: string) => void }[] =
+      [];
+    const asyncValidation = (value: string, signal: AbortSignal) =>
+      new Promise<string | undefined>((resolve) => checks.push({ value, signal, resolve }));
+    renderWithForm(
+      <Input name="username" asyncValidation={asyncValidation} asyncValidationDebounce={0} />
+    );
+
+    const input = screen.getByRole("textbox");
+    await userEvent.type(input, "a");
+    await waitFor(() => expect(checks).toHaveLength(1));
+    await userEvent.type(input, "b");
+    await waitFor(() => expect(checks).toHaveLength(2));
+
+    expect(checks[0].signal.aborted).toBe(true);
+    checks[0].resolve("Stale error");
+    checks[1].resolve(undefined);
+
+    await waitFor(() => expect(input).not.toHaveAttribute("aria-busy"));
+    expect(screen.queryByText("Stale error")).not.toBeInTheDocument();
+    expect(checks[1].value).toBe("ab");
+  });
+
+  it("skips asynchronous validation when the synchronous one fails", async () => {
+    const asyncValidation = vi.fn(async () => undefined);
+    renderWithForm(
+      <Input
+        name="username"
+        validationType="alphanumeric"
+        asyncValidation={asyncValidation}
+        asyncValidationDebounce={0}
+      />
+    );
+
+    await userEvent.type(screen.getByRole("textbox"), "a b");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(asyncValidation).not.toHaveBeenCalledWith("a ", expect.anything());
+    expect(asyncValidation).not.toHaveBeenCalledWith("a b", expect.anything());
+    expect(screen.getByText("Please enter letters and numbers only")).toBeInTheDocument();
+  });
+
+  it("checks a prefilled value on blur", async () => {
+    const asyncValidation = vi.fn(async (value: string) =>
+      value === "taken" ? "Username is taken" : undefined
+    );
+    renderWithForm(
+      <Input
+        name="username"
+        value="taken"
+        onChange={() => {}}
+        asyncValidation={asyncValidation}
+        asyncValidationDebounce={0}
+      />
+    );
+
+    await userEvent.click(screen.getByRole("textbox"));
+    await userEvent.tab();
+
+    expect(await screen.findByText("Username is taken")).toBeInTheDocument();
+    expect(asyncValidation).toHaveBeenCalledTimes(1);
+
+    // Blurring again keeps the result of the unchanged value
+    await userEvent.click(screen.getByRole("textbox"));
+    await userEvent.tab();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(asyncValidation).toHaveBeenCalledTimes(1);
+  });
+
+  /**
+   * Validation Timing Tests
+   * Verifies that errors stay hidden until the validateOn trigger, then follow revalidateOn
+   */
+  it("validates once touched, then on every change", async () => {
+    renderWithForm(<Input name="email" validationType="email" validateOn="onTouched" />);
+
+    const input = screen.getByRole("textbox");
+    await userEvent.type(input, "jane@");
+    expect(input).toHaveAttribute("aria-invalid", "false");
+
+    await userEvent.tab();
+    expect(input).toHaveAttribute("aria-invalid", "true");
+    expect(screen.getByText("Please enter a valid email address")).toBeInTheDocument();
+
+    await userEvent.type(input, "example.com");
+    expect(input).toHaveAttribute("aria-invalid", "false");
+  });
+
+  it("validates on submit, then revalidates on blur", async () => {
+    render(
+      <Form.Root onSubmit={(e) => e.preventDefault()}>
+        <Input name="email" validationType="email" validateOn="onSubmit" revalidateOn="onBlur" />
+        <button type="submit">Submit</button>
+      </Form.Root>
+    );
+
+    const input = screen.getByRole("textbox");
+    await userEvent.type(input, "jane");
+    await userEvent.tab();
+    expect(input).toHaveAttribute("aria-invalid", "false");
+
+    await userEvent.click(screen.getByRole("button", { name: "Submit" }));
+    expect(input).toHaveAttribute("aria-invalid", "true");
+
+    await userEvent.type(input, "@example.com");
+    expect(input).toHaveAttribute("aria-invalid", "true");
+
+    await userEvent.tab();
+    expect(input).toHaveAttribute("aria-invalid", "false");
+  });
+
+  /**
+   * Schema Validation Tests
+   * Verifies that schema issues are shown in place of the validationType patterns
+   */
+  it("validates with a schema in place of the validation type", async () => {
+    const schema = createSchema((value) =>
+      value.endsWith(".com") ? undefined : "Use a .com address"
+    );
+    renderWithForm(<Input name="email" validationType="email" schema={schema} />);
+
+    const input = screen.getByRole("textbox");
+    await userEvent.type(input, "jane@example.org");
+    expect(input).toHaveAttribute("aria-invalid", "true");
+    expect(screen.getByText("Use a .com address")).toBeInTheDocument();
+
+    await userEvent.clear(input);
+    await userEvent.type(input, "not-an-email.com");
+    expect(input).toHaveAttribute("aria-invalid", "false");
+  });
+
+  it("checks asynchronous schemas once typing pauses", async () => {
+    const schema = createSchema((value) => (value.length < 3 ? "Too short" : undefined), true);
+    renderWithForm(<Input name="username" schema={schema} asyncValidationDebounce={20} />);
+
+    const input = screen.getByRole("textbox");
+    await userEvent.type(input, "ab");
+    expect(input).toHaveAttribute("aria-invalid", "false");
+
+    expect(await screen.findByText("Too short")).toBeInTheDocument();
+    expect(input).toHaveAttribute("aria-invalid", "true");
+  });
+
+  /**
+   * Validation Messages Tests
+   * Verifies bundled locales, overrides and interpolation of the validation messages
+   */
+  it("shows the messages of the bundled locale of the provider", async () => {
+    render(
+      <MessagesProvider locale="fr">
+        <Input name="code" minLength={4} />
+      </MessagesProvider>
+    );
+
+    await userEvent.type(screen.getByRole("textbox"), "ab");
+    expect(screen.getByText("4 caractères minimum requis")).toBeInTheDocument();
+  });
+
+  it("interpolates overridden messages, the messages of the field first", async () => {
+    render(
+      <MessagesProvider
+        locale="de"
+        messages={{ minLength: (params) => `${params.label}: min. ${params.min}` }}
+      >
+        <Input
+          name="name"
+          label="Vorname"
+          required
+          minLength={3}
+          messages={{ required: "{label} fehlt" }}
+        />
+        <Input name="city" label="Stadt" validationType="alphanumeric" />
+      </MessagesProvider>
+    );
+
+    const [name, city] = screen.getAllByRole("textbox");
+    await userEvent.type(name, "ab");
+    expect(screen.getByText("Vorname: min. 3")).toBeInTheDocument();
+
+    await userEvent.clear(name);
+    expect(screen.getByText("Vorname fehlt")).toBeInTheDocument();
+
+    await userEvent.type(city, "Köln!");
+    expect(screen.getByText("Bitte geben Sie nur Buchstaben und Ziffern ein")).toBeInTheDocument();
+  });
+
   /**
    * Form Integration Tests
    * Verifies that the component works correctly within a form context
@@ -1,9 +1,24 @@
-import React, { useId, useState } from "react";
+import React, { useEffect, useId, useRef, useState } from "react";
 
+import { useDirection } from "../../../core/direction";
+import { getSchemaError } from "../../../core/schema";
 import { cn } from "../../../core/utils";
-import { VALIDATION_MESSAGES, VALIDATION_PATTERNS } from "../core/constants";
+import { useFormContext } from "../../form/core/context";
+import { VALIDATION_PATTERNS } from "../core/constants";
+import { useValidationMessages } from "../core/context";
 import { HidePasswordIcon, ShowPasswordIcon } from "../core/icons";
-import type { IInputProps, IValidationResult } from "../core/types";
+import type {
+  IInputProps,
+  IValidationMessageParams,
+  IValidationResult,
+  TValidationMessageKey,
+} from "../core/types";
+import {
+  formatMaskedValue,
+  formatValidationMessage,
+  getMaskedCaret,
+  getRawValue,
+} from "../core/utils";
 
 /**
  * Input Component
@@ -14,8 +29,14 @@ import type { IInputProps, IValidationResult } from "../core/types";
  *
  * Key Features:
  * - Built-in form validation with customizable patterns
+ * - Localizable validation messages, from a MessagesProvider or the `messages` prop
+ * - Schema validation with any Standard Schema library, e.g. Zod or Valibot
  * - Secure password handling with visibility toggle
  * - Real-time character counting
+ * - Input masks formatting values while typing, keeping the caret in place
+ * - Debounced asynchronous validation with cancellation of stale checks
+ * - Configurable validation timing, keeping errors hidden until the field is touched
+ * - Registration with an enclosing Form, showing its server-side errors
  * - Loading state management
  * - Animated error feedback
  * - Comprehensive helper text system
@@ -50,7 +71,15 @@ const Input = ({
   minLength,
   isLoading = false,
   validationType,
+  schema,
+  messages,
   customValidation,
+  asyncValidation,
+  asyncValidationDebounce = 300,
+  validateOn = "all",
+  revalidateOn = "onChange",
+  mask,
+  onValueChange,
   classNames,
   value: externalValue,
   onChange,
@@ -58,46 +87,78 @@ const Input = ({
   onFocus,
   ...props
 }: IInputProps) => {
+  const dir = useDirection();
+  const formContext = useFormContext();
+  const providedMessages = useValidationMessages();
+
   // Track input state and validation
   const [isFocused, setIsFocused] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const [internalError, setInternalError] = useState<string>();
   const [internalValue, setInternalValue] = useState(externalValue ?? "");
+  const [asyncError, setAsyncError] = useState<string>();
+  const [isValidating, setIsValidating] = useState(false);
+  const asyncValidationTimer = useRef<ReturnType<typeof setTimeout>>(undefined);
+  const asyncValidationController = useRef<AbortController>(undefined);
+  // Value the latest asynchronous validation was started for
+  const asyncValidatedValue = useRef<string>(undefined);
+  // Whether the field has been validated, after which revalidateOn applies
+  const isValidated = useRef(false);
+  const inputRef = useRef<HTMLInputElement>(null);
   const generatedId = useId();
 
   // Derived state
   const inputId = props.id || generatedId;
   const isPassword = type === "password";
-  const value = externalValue ?? internalValue;
+  const unmaskedValue = externalValue ?? internalValue;
+  const value = mask ? formatMaskedValue(mask, String(unmaskedValue)).value : unmaskedValue;
   const currentLength = typeof value === "string" ? value.length : 0;
   const inputType = isPassword ? (showPassword ? "text" : "password") : type;
+  const displayedError = error || internalError || formContext?.errors[name] || asyncError;
+  const showSpinner = isLoading || isValidating;
+
+  // Format the message of a validation rule, the messages of the field taking precedence
+  const getMessage = (key: TValidationMessageKey, params?: Partial<IValidationMessageParams>) => {
+    const message = messages?.[key] ?? providedMessages[key];
+    return formatValidationMessage(message, { label: label ?? name, ...params });
+  };
 
-  // Validate input value against all validation rules
-  const validateInput = (value: string): IValidationResult => {
+  // Validate input value against all validation rules, flagging asynchronous
+  // schemas whose result is pending
+  const validateInput = (value: string): IValidationResult & { isPending?: boolean } => {
     if (required && !value) {
-      return { isValid: false, message: VALIDATION_MESSAGES.required };
+      return { isValid: false, message: getMessage("required") };
     }
 
     if (minLength && value.length < minLength) {
       return {
         isValid: false,
-        message: VALIDATION_MESSAGES.minLength(minLength),
+        message: getMessage("minLength", { min: minLength }),
       };
     }
 
     if (maxLength && value.length > maxLength) {
       return {
         isValid: false,
-        message: VALIDATION_MESSAGES.maxLength(maxLength),
+        message: getMessage("maxLength", { max: maxLength }),
       };
     }
 
-    if (validationType && value) {
+    let isPending = false;
+    if (schema) {
+      const schemaError = getSchemaError(schema, value);
+      if (typeof schemaError === "string") {
+        return { isValid: false, message: schemaError };
+      }
+      isPending = schemaError instanceof Promise;
+    } else if (validationType && value) {
       const pattern = VALIDATION_PATTERNS[validationType];
-      if (!pattern.test(value)) {
+      // Separators added by a mask may not be part of the pattern
+      const isMatch = pattern.test(value) || (!!mask && pattern.test(getRawValue(value)));
+      if (!isMatch) {
         return {
           isValid: false,
-          message: VALIDATION_MESSAGES[validationType],
+          message: getMessage(validationType),
         };
       }
     }
@@ -109,22 +170,177 @@ const Input = ({
       }
     }
 
-    return { isValid: true };
+    return { isValid: true, isPending };
   };
 
+  // Format the edited value with the mask, keeping the caret after the same raw character
+  const applyMask = (input: HTMLInputElement, nativeEvent: Event) => {
+    if (!mask) return;
+
+    const previousValue = String(value);
+    let newValue = input.value;
+    let caret = input.selectionStart ?? newValue.length;
+    const isDeletion = newValue.length < previousValue.length;
+
+    // Deleting a separator deletes the character next to it instead
+    if (isDeletion && getRawValue(newValue) === getRawValue(previousValue)) {
+      const isForward = (nativeEvent as InputEvent).inputType === "deleteContentForward";
+      const step = isForward ? 1 : -1;
+      let index = isForward ? caret : caret - 1;
+      while (index >= 0 && index < newValue.length && !getRawValue(newValue[index])) index += step;
+      if (index >= 0 && index < newValue.length) {
+        newValue = newValue.slice(0, index) + newValue.slice(index + 1);
+        if (!isForward) caret = index;
+      }
+    }
+
+    const formatted = formatMaskedValue(mask, newValue).value;
+    const newCaret =
+      caret >= newValue.length
+        ? formatted.length
+        : getMaskedCaret(formatted, getRawValue(newValue.slice(0, caret)).length, !isDeletion);
+
+    input.value = formatted;
+    if (document.activeElement === input) input.setSelectionRange(newCaret, newCaret);
+  };
+
+  // Cancel the pending asynchronous validation, if any
+  const cancelAsyncValidation = () => {
+    clearTimeout(asyncValidationTimer.current);
+    asyncValidationController.current?.abort();
+    asyncValidationController.current = undefined;
+    setIsValidating(false);
+  };
+
+  // Cancel the pending asynchronous validation on unmount
+  useEffect(() => cancelAsyncValidation, []);
+
+  // Run the asynchronous validation of a value once typing pauses,
+  // showing its error only once the latest check resolves
+  const scheduleAsyncValidation = (
+    value: string,
+    { isValid, isPending }: ReturnType<typeof validateInput>
+  ) => {
+    if (!asyncValidation && !isPending) return;
+
+    cancelAsyncValidation();
+    setAsyncError(undefined);
+    asyncValidatedValue.current = value;
+    if (!isValid || (!value && !isPending)) return;
+
+    asyncValidationTimer.current = setTimeout(
+      () => runAsyncValidation(value, isPending),
+      asyncValidationDebounce
+    );
+  };
+
+  // Run the asynchronous validation of a value now, resolving to its error message
+  const runAsyncValidation = async (value: string, isPending?: boolean) => {
+    const controller = new AbortController();
+    asyncValidationController.current = controller;
+    setIsValidating(true);
+
+    try {
+      const schemaError = isPending && schema ? await getSchemaError(schema, value) : undefined;
+      const message =
+        schemaError ?? (value ? await asyncValidation?.(value, controller.signal) : undefined);
+      if (!controller.signal.aborted) setAsyncError(message);
+      return message;
+    } catch {
+      // Failed checks, including aborted ones, leave the value unflagged
+      return undefined;
+    } finally {
+      if (!controller.signal.aborted) {
+        asyncValidationController.current = undefined;
+        setIsValidating(false);
+      }
+    }
+  };
+
+  // Check whether an interaction validates the field, following validateOn until
+  // the field has been validated and revalidateOn afterwards
+  const shouldValidate = (trigger: "onChange" | "onBlur" | "onSubmit") => {
+    if (trigger === "onSubmit") return true;
+    if (!isValidated.current) {
+      return (
+        validateOn === "all" ||
+        validateOn === trigger ||
+        (validateOn === "onTouched" && trigger === "onBlur")
+      );
+    }
+    return validateOn === "all" || validateOn === "onTouched" || revalidateOn === trigger;
+  };
+
+  // Validate a value and show its errors
+  const validate = (value: string) => {
+    const result = validateInput(value);
+    isValidated.current = true;
+    setInternalError(result.isValid ? undefined : result.message);
+    return result;
+  };
+
+  // Validate a value on submit, running its asynchronous validation and schema without
+  // waiting for typing to pause. Resolves to the error message when a check is asynchronous
+  const validateForSubmit = (value: string) => {
+    const { isValid, isPending, message } = validate(value);
+    if (!asyncValidation && !isPending) return isValid ? undefined : message;
+
+    cancelAsyncValidation();
+    setAsyncError(undefined);
+    asyncValidatedValue.current = value;
+    if (!isValid) return message;
+    return value || isPending ? runAsyncValidation(value, isPending) : undefined;
+  };
+
+  // Validate the field when its form is submitted, or blocked from submitting
+  const handleSubmitAttempt = () => {
+    if (!inputRef.current) return;
+    void validateForSubmit(inputRef.current.value);
+  };
+
+  // Listen to submissions of the form of the input, a Form validates its fields itself
+  useEffect(() => {
+    const form = inputRef.current?.form;
+    if (!form || formContext) return;
+
+    form.addEventListener("submit", handleSubmitAttempt);
+    return () => form.removeEventListener("submit", handleSubmitAttempt);
+  });
+
+  // Register with the enclosing Form, which validates the field and reads its value on submit
+  useEffect(() => {
+    const input = inputRef.current;
+    if (!formContext || !input) return;
+
+    return formContext.registerField({
+      name,
+      input,
+      validate: () => validateForSubmit(input.value),
+    });
+  });
+
   // Event handlers for input interactions
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    applyMask(e.target, e.nativeEvent);
     const newValue = e.target.value;
-    const { isValid, message } = validateInput(newValue);
 
-    setInternalError(isValid ? undefined : message);
     setInternalValue(newValue);
+    formContext?.clearError(name);
+    if (shouldValidate("onChange")) {
+      scheduleAsyncValidation(newValue, validate(newValue));
+    }
     onChange?.(e);
+    onValueChange?.(newValue, mask ? getRawValue(newValue) : newValue);
   };
 
   const handleBlur = (e: React.FocusEvent<HTMLInputElement>) => {
-    const { isValid, message } = validateInput(e.target.value);
-    setInternalError(isValid ? undefined : message);
+    if (shouldValidate("onBlur")) {
+      // Check values not checked yet, e.g. initial values or values not validated on change
+      const result = validate(e.target.value);
+      if (asyncValidatedValue.current !== e.target.value) {
+        scheduleAsyncValidation(e.target.value, result);
+      }
+    }
     setIsFocused(false);
     onBlur?.(e);
   };
@@ -149,9 +365,9 @@ const Input = ({
     "disabled:cursor-not-allowed disabled:bg-gray-50 disabled:text-gray-500",
     "hover:border-gray-300",
     {
-      "border-red-500 focus:border-red-500 focus:ring-red-500": error || internalError,
+      "border-red-500 focus:border-red-500 focus:ring-red-500": displayedError,
       "scale-[1.01]": isFocused,
-      "pr-10": (isPassword && showPasswordToggle) || isLoading,
+      "pe-10": (isPassword && showPasswordToggle) || showSpinner,
     },
     classNames?.input
   );
@@ -175,9 +391,9 @@ const Input = ({
     "text-sm",
     "transition-all duration-200 ease-in-out",
     "transform",
-    error || internalError ? "text-red-500" : "text-gray-500",
+    displayedError ? "text-red-500" : "text-gray-500",
     {
-      "animate-shake": error || internalError,
+      "animate-shake": displayedError,
     },
     classNames?.error || classNames?.helperText
   );
@@ -198,13 +414,13 @@ const Input = ({
    * @returns A fully accessible and feature-rich input component
    */
   return (
-    <div className={wrapperClassName}>
+    <div dir={dir} className={wrapperClassName}>
       {/* Input label with required indicator */}
       {label && (
         <label htmlFor={inputId} className={labelClassName}>
           {label}
           {required && (
-            <span className="text-red-500 ml-1" aria-hidden="true">
+            <span className="text-red-500 ms-1" aria-hidden="true">
               *
             </span>
           )}
@@ -213,6 +429,7 @@ const Input = ({
       <div className="relative">
         {/* Main input element */}
         <input
+          ref={inputRef}
           id={inputId}
           type={inputType}
           name={name}
@@ -220,13 +437,15 @@ const Input = ({
           onChange={handleChange}
           onBlur={handleBlur}
           onFocus={handleFocus}
+          onInvalid={handleSubmitAttempt}
           required={required}
           maxLength={maxLength}
           minLength={minLength}
           disabled={isLoading}
           className={inputClassName}
-          aria-invalid={!!(error || internalError)}
-          aria-describedby={error || internalError || helperText ? `${inputId}-message` : undefined}
+          aria-invalid={!!displayedError}
+          aria-busy={isValidating || undefined}
+          aria-describedby={displayedError || helperText ? `${inputId}-message` : undefined}
           {...props}
         />
         {/* Password visibility toggle */}
@@ -235,7 +454,7 @@ const Input = ({
             type="button"
             onClick={togglePasswordVisibility}
             className={cn(
-              "absolute right-2 top-1/2 -translate-y-1/2",
+              "absolute end-2 top-1/2 -translate-y-1/2",
               "text-gray-500 hover:text-gray-700",
               "transition-colors",
               classNames?.showPasswordIcon || classNames?.hidePasswordIcon
@@ -250,17 +469,17 @@ const Input = ({
           </button>
         )}
         {/* Loading spinner */}
-        {isLoading && (
-          <div className="absolute right-2 top-1/2 -translate-y-1/2">
+        {showSpinner && (
+          <div className="absolute end-2 top-1/2 -translate-y-1/2">
             <div className="animate-spin rounded-full h-5 w-5 border-2 border-gray-300 border-t-blue-500" />
           </div>
         )}
       </div>
       {/* Helper text and character count */}
       <div className="flex justify-between items-center">
-        {(error || internalError || helperText) && (
+        {(displayedError || helperText) && (
           <div id={`${inputId}-message`} className={messageClassName}>
-            {error || internalError || helperText}
+            {displayedError || helperText}
           </div>
         )}
         {showCharacterCount && maxLength && (
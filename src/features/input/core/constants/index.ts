@@ -10,6 +10,8 @@
  * input variations.
  */
 
+import type { IValidationMessageParams } from "../types";
+
 /**
  * Validation Patterns
  *
@@ -54,10 +56,11 @@ export const VALIDATION_PATTERNS = {
  *
  * User-friendly error messages corresponding to each validation pattern.
  * Messages are designed to be clear, concise, and helpful to users when
- * validation fails.
+ * validation fails. They are the English messages, the length messages are
+ * functions of the length limits and the label of the field.
  *
  * @constant
- * @type {Record<string, string | ((param: number) => string)>}
+ * @type {Record<string, string | ((params: IValidationMessageParams) => string)>}
  */
 export const VALIDATION_MESSAGES = {
   email: "Please enter a valid email address",
@@ -67,8 +70,8 @@ export const VALIDATION_MESSAGES = {
   alphanumeric: "Please enter letters and numbers only",
   password: "Password must be at least 8 characters with letters and numbers",
   required: "This field is required",
-  minLength: (min: number) => `Minimum ${min} characters required`,
-  maxLength: (max: number) => `Maximum ${max} characters allowed`,
+  minLength: ({ min }: IValidationMessageParams) => `Minimum ${min} characters required`,
+  maxLength: ({ max }: IValidationMessageParams) => `Maximum ${max} characters allowed`,
   username:
     "Username must be 3-20 characters and can only contain letters, numbers, underscores, and hyphens",
   postalCode: "Please enter a valid postal code (e.g., 12345 or 12345-6789)",
@@ -91,3 +94,39 @@ export const VALIDATION_MESSAGES = {
   slug: "Please enter a valid slug (e.g., my-page-title)",
   semver: "Please enter a valid semantic version (e.g., 1.0.0)",
 } as const;
+
+/**
+ * Input Masks
+ *
+ * Built-in masks formatting values while typing, keyed by the validation pattern
+ * their values match. Pattern strings use `9` for a digit, `a` for a letter and
+ * `*` for either; function masks receive the letters and digits typed so far.
+ *
+ * @constant
+ * @type {Record<string, string | ((raw: string) => string)>}
+ */
+export const INPUT_MASKS = {
+  phoneUS: "(999) 999-9999",
+  socialSecurity: "999-99-9999",
+  date: "9999-99-99",
+  time: "99:99",
+  postalCode: "99999-9999",
+  // American Express numbers are grouped 4-6-5, other cards by 4
+  creditCard: (raw: string) => {
+    const digits = raw.replace(/\D/g, "");
+    const groups = /^3[47]/.test(digits) ? [4, 6, 5] : [4, 4, 4, 4];
+    let offset = 0;
+    return groups
+      .map((length) => digits.slice(offset, (offset += length)))
+      .filter(Boolean)
+      .join(" ");
+  },
+  // Digits fill the amount from the cents, like a cash register
+  currency: (raw: string) => {
+    const digits = raw.replace(/\D/g, "").replace(/^0+/, "");
+    if (!digits) return "";
+    const amount = digits.padStart(3, "0");
+    const dollars = amount.slice(0, -2).replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+    return `$${dollars}.${amount.slice(-2)}`;
+  },
+} satisfies Partial<Record<keyof typeof VALIDATION_PATTERNS, string | ((raw: string) => string)>>;
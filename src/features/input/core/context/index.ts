@@ -0,0 +1,23 @@
+/**
+ * Validation Messages Context
+ *
+ * This module contains the context through which a MessagesProvider sets the
+ * validation messages of the Input components rendered inside it.
+ */
+
+import { createContext, useContext } from "react";
+
+import { VALIDATION_MESSAGES } from "../constants";
+import type { TValidationMessages } from "../types";
+
+/**
+ * Validation messages of the nearest MessagesProvider, the English messages outside of one
+ */
+export const ValidationMessagesContext = createContext<TValidationMessages>(VALIDATION_MESSAGES);
+
+/**
+ * Returns the validation messages of the nearest MessagesProvider.
+ *
+ * @returns The catalog of validation messages
+ */
+export const useValidationMessages = () => useContext(ValidationMessagesContext);
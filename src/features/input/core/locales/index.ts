@@ -0,0 +1,131 @@
+/**
+ * Validation Message Locales
+ *
+ * This module contains the bundled translations of the validation messages.
+ * Every locale translates every message, keeping the `{label}`, `{min}` and
+ * `{max}` placeholders and the format examples of the patterns.
+ */
+
+import { VALIDATION_MESSAGES } from "../constants";
+import type { TValidationLocale, TValidationMessages } from "../types";
+
+/**
+ * Spanish validation messages
+ */
+const es: TValidationMessages = {
+  email: "Introduce una dirección de correo electrónico válida",
+  phone: "Introduce un número de teléfono válido (p. ej., +1234567890)",
+  url: "Introduce una URL válida (p. ej., https://example.com)",
+  numeric: "Introduce solo números",
+  alphanumeric: "Introduce solo letras y números",
+  password: "La contraseña debe tener al menos 8 caracteres con letras y números",
+  required: "Este campo es obligatorio",
+  minLength: "Se requieren al menos {min} caracteres",
+  maxLength: "Se permiten como máximo {max} caracteres",
+  username:
+    "El nombre de usuario debe tener entre 3 y 20 caracteres y solo puede contener letras, números, guiones bajos y guiones",
+  postalCode: "Introduce un código postal válido (p. ej., 12345 o 12345-6789)",
+  date: "Introduce una fecha válida en formato AAAA-MM-DD",
+  time: "Introduce una hora válida en formato HH:MM (24 horas)",
+  creditCard: "Introduce un número de tarjeta de crédito válido",
+  ipv4: "Introduce una dirección IPv4 válida",
+  hexColor: "Introduce un código de color hexadecimal válido (p. ej., #FF0000 o #F00)",
+  strongPassword:
+    "La contraseña debe tener al menos 8 caracteres con mayúsculas, minúsculas, un número y un carácter especial",
+  currency: "Introduce un importe válido (p. ej., $10.99)",
+  phoneUS: "Introduce un número de teléfono de EE. UU. válido (p. ej., (123) 456-7890)",
+  phoneUK: "Introduce un número de teléfono del Reino Unido válido (p. ej., +44 7123456789)",
+  phoneEU: "Introduce un número de teléfono de la UE válido",
+  socialSecurity: "Introduce un SSN válido (p. ej., 123-45-6789)",
+  zipCodeUK: "Introduce un código postal del Reino Unido válido (p. ej., SW1A 1AA)",
+  zipCodeCA: "Introduce un código postal canadiense válido (p. ej., A1A 1A1)",
+  macAddress: "Introduce una dirección MAC válida (p. ej., 00:1A:2B:3C:4D:5E)",
+  domain: "Introduce un nombre de dominio válido (p. ej., example.com)",
+  slug: "Introduce un slug válido (p. ej., my-page-title)",
+  semver: "Introduce una versión semántica válida (p. ej., 1.0.0)",
+};
+
+/**
+ * French validation messages
+ */
+const fr: TValidationMessages = {
+  email: "Veuillez saisir une adresse e-mail valide",
+  phone: "Veuillez saisir un numéro de téléphone valide (ex. : +1234567890)",
+  url: "Veuillez saisir une URL valide (ex. : https://example.com)",
+  numeric: "Veuillez saisir uniquement des chiffres",
+  alphanumeric: "Veuillez saisir uniquement des lettres et des chiffres",
+  password: "Le mot de passe doit contenir au moins 8 caractères, avec des lettres et des chiffres",
+  required: "Ce champ est obligatoire",
+  minLength: "{min} caractères minimum requis",
+  maxLength: "{max} caractères maximum autorisés",
+  username:
+    "Le nom d'utilisateur doit contenir de 3 à 20 caractères : lettres, chiffres, tirets bas et tirets uniquement",
+  postalCode: "Veuillez saisir un code postal valide (ex. : 12345 ou 12345-6789)",
+  date: "Veuillez saisir une date valide au format AAAA-MM-JJ",
+  time: "Veuillez saisir une heure valide au format HH:MM (24 h)",
+  creditCard: "Veuillez saisir un numéro de carte bancaire valide",
+  ipv4: "Veuillez saisir une adresse IPv4 valide",
+  hexColor: "Veuillez saisir un code couleur hexadécimal valide (ex. : #FF0000 ou #F00)",
+  strongPassword:
+    "Le mot de passe doit contenir au moins 8 caractères, dont une majuscule, une minuscule, un chiffre et un caractère spécial",
+  currency: "Veuillez saisir un montant valide (ex. : $10.99)",
+  phoneUS: "Veuillez saisir un numéro de téléphone américain valide (ex. : (123) 456-7890)",
+  phoneUK: "Veuillez saisir un numéro de téléphone britannique valide (ex. : +44 7123456789)",
+  phoneEU: "Veuillez saisir un numéro de téléphone européen valide",
+  socialSecurity: "Veuillez saisir un SSN valide (ex. : 123-45-6789)",
+  zipCodeUK: "Veuillez saisir un code postal britannique valide (ex. : SW1A 1AA)",
+  zipCodeCA: "Veuillez saisir un code postal canadien valide (ex. : A1A 1A1)",
+  macAddress: "Veuillez saisir une adresse MAC valide (ex. : 00:1A:2B:3C:4D:5E)",
+  domain: "Veuillez saisir un nom de domaine valide (ex. : example.com)",
+  slug: "Veuillez saisir un slug valide (ex. : my-page-title)",
+  semver: "Veuillez saisir une version sémantique valide (ex. : 1.0.0)",
+};
+
+/**
+ * German validation messages
+ */
+const de: TValidationMessages = {
+  email: "Bitte geben Sie eine gültige E-Mail-Adresse ein",
+  phone: "Bitte geben Sie eine gültige Telefonnummer ein (z. B. +1234567890)",
+  url: "Bitte geben Sie eine gültige URL ein (z. B. https://example.com)",
+  numeric: "Bitte geben Sie nur Ziffern ein",
+  alphanumeric: "Bitte geben Sie nur Buchstaben und Ziffern ein",
+  password:
+    "Das Passwort muss mindestens 8 Zeichen lang sein und Buchstaben sowie Ziffern enthalten",
+  required: "Dieses Feld ist erforderlich",
+  minLength: "Mindestens {min} Zeichen erforderlich",
+  maxLength: "Höchstens {max} Zeichen erlaubt",
+  username:
+    "Der Benutzername muss 3–20 Zeichen lang sein und darf nur Buchstaben, Ziffern, Unterstriche und Bindestriche enthalten",
+  postalCode: "Bitte geben Sie eine gültige Postleitzahl ein (z. B. 12345 oder 12345-6789)",
+  date: "Bitte geben Sie ein gültiges Datum im Format JJJJ-MM-TT ein",
+  time: "Bitte geben Sie eine gültige Uhrzeit im Format HH:MM (24 Stunden) ein",
+  creditCard: "Bitte geben Sie eine gültige Kreditkartennummer ein",
+  ipv4: "Bitte geben Sie eine gültige IPv4-Adresse ein",
+  hexColor: "Bitte geben Sie einen gültigen Hex-Farbcode ein (z. B. #FF0000 oder #F00)",
+  strongPassword:
+    "Das Passwort muss mindestens 8 Zeichen lang sein und Groß- und Kleinbuchstaben, eine Ziffer sowie ein Sonderzeichen enthalten",
+  currency: "Bitte geben Sie einen gültigen Betrag ein (z. B. $10.99)",
+  phoneUS: "Bitte geben Sie eine gültige US-Telefonnummer ein (z. B. (123) 456-7890)",
+  phoneUK: "Bitte geben Sie eine gültige britische Telefonnummer ein (z. B. +44 7123456789)",
+  phoneEU: "Bitte geben Sie eine gültige EU-Telefonnummer ein",
+  socialSecurity: "Bitte geben Sie eine gültige SSN ein (z. B. 123-45-6789)",
+  zipCodeUK: "Bitte geben Sie eine gültige britische Postleitzahl ein (z. B. SW1A 1AA)",
+  zipCodeCA: "Bitte geben Sie eine gültige kanadische Postleitzahl ein (z. B. A1A 1A1)",
+  macAddress: "Bitte geben Sie eine gültige MAC-Adresse ein (z. B. 00:1A:2B:3C:4D:5E)",
+  domain: "Bitte geben Sie einen gültigen Domainnamen ein (z. B. example.com)",
+  slug: "Bitte geben Sie einen gültigen Slug ein (z. B. my-page-title)",
+  semver: "Bitte geben Sie eine gültige semantische Version ein (z. B. 1.0.0)",
+};
+
+/**
+ * Bundled validation messages, keyed by locale
+ *
+ * @constant
+ */
+export const VALIDATION_LOCALES: Record<TValidationLocale, TValidationMessages> = {
+  en: VALIDATION_MESSAGES,
+  es,
+  fr,
+  de,
+};
@@ -1,4 +1,5 @@
-import { VALIDATION_PATTERNS } from "../../core/constants";
+import type { IStandardSchema } from "../../../../core/schema";
+import { INPUT_MASKS, VALIDATION_MESSAGES, VALIDATION_PATTERNS } from "../../core/constants";
 
 /**
  * Input Component Type Definitions
@@ -33,12 +34,50 @@ export interface IInputProps extends React.InputHTMLAttributes<HTMLInputElement>
   /** Display label for the input field */
   label?: string;
 
-  /** Type of validation to apply to the input */
+  /** Type of validation to apply to the input, the fallback when no `schema` is given */
   validationType?: keyof typeof VALIDATION_PATTERNS;
 
+  /**
+   * Schema following the Standard Schema interface, e.g. from Zod or Valibot, validating
+   * the value in place of `validationType`. The message of its first issue is shown.
+   * Asynchronous schemas are checked with `asyncValidation`, once typing pauses.
+   */
+  schema?: IStandardSchema<string, unknown>;
+
+  /**
+   * Validation messages of the field, overriding those of the enclosing MessagesProvider.
+   * `{label}`, `{min}` and `{max}` are replaced with the label and length limits.
+   */
+  messages?: Partial<TValidationMessages>;
+
   /** Custom validation function that returns an error message if validation fails */
   customValidation?: (value: string) => string | undefined;
 
+  /**
+   * Asynchronous validation resolving to an error message if validation fails, e.g. a
+   * server-side availability check. Runs after the other validations pass, once typing
+   * pauses; the signal aborts when the value changes again.
+   */
+  asyncValidation?: (value: string, signal: AbortSignal) => Promise<string | undefined>;
+
+  /** Delay in milliseconds after the last change before running `asyncValidation` */
+  asyncValidationDebounce?: number;
+
+  /** When the field is first validated, errors stay hidden until then */
+  validateOn?: TValidationTrigger;
+
+  /** When the field is validated again once it has been validated */
+  revalidateOn?: TRevalidationTrigger;
+
+  /**
+   * Mask formatting the value while typing. Masked values pass the validation
+   * pattern when either the formatted or the raw value matches it.
+   */
+  mask?: TInputMask;
+
+  /** Callback with the formatted and raw values when the value changes */
+  onValueChange?: (value: string, raw: string) => void;
+
   /** Whether to show password visibility toggle for password inputs */
   showPasswordToggle?: boolean;
 
@@ -95,3 +134,75 @@ export interface IInputClasses {
  * Maps to the validation patterns defined in constants.
  */
 export type TValidationPattern = keyof typeof VALIDATION_PATTERNS;
+
+/**
+ * Keys of the validation messages, one per validation pattern and length or required rule
+ */
+export type TValidationMessageKey = keyof typeof VALIDATION_MESSAGES;
+
+/**
+ * Values interpolated into validation messages
+ */
+export interface IValidationMessageParams {
+  /** Label of the field, or its name when it has no label */
+  label: string;
+  /** Minimum length of the value */
+  min?: number;
+  /** Maximum length of the value */
+  max?: number;
+}
+
+/**
+ * Validation message, a string with `{label}`, `{min}` and `{max}` placeholders
+ * or a function returning the message
+ */
+export type TValidationMessage = string | ((params: IValidationMessageParams) => string);
+
+/**
+ * Catalog of validation messages, keyed by validation rule
+ */
+export type TValidationMessages = Record<TValidationMessageKey, TValidationMessage>;
+
+/**
+ * Bundled locales of the validation messages
+ */
+export type TValidationLocale = "en" | "es" | "fr" | "de";
+
+/**
+ * Function mask, formatting the letters and digits typed by the user
+ */
+export type TInputMaskFunction = (raw: string) => string;
+
+/**
+ * Mask formatting the value of the input while typing:
+ * - the name of a built-in mask, e.g. `phoneUS` or `creditCard`
+ * - a pattern with `9` for a digit, `a` for a letter and `*` for either, e.g. `"(999) 999-9999"`
+ * - a function mask
+ */
+export type TInputMask = keyof typeof INPUT_MASKS | (string & {}) | TInputMaskFunction;
+
+/**
+ * Value of a masked input
+ */
+export interface IMaskedValue {
+  /** Value formatted by the mask */
+  value: string;
+  /** Letters and digits of the value, without the characters added by the mask */
+  raw: string;
+}
+
+/**
+ * When an input is first validated:
+ * - `all`: on every change and blur
+ * - `onChange`: on every change
+ * - `onBlur`: when the input loses focus
+ * - `onTouched`: when the input loses focus, then on every change and blur
+ * - `onSubmit`: when its form is submitted
+ */
+export type TValidationTrigger = "all" | "onChange" | "onBlur" | "onTouched" | "onSubmit";
+
+/**
+ * When an input that has been validated is validated again.
+ * Submitting its form always validates it.
+ */
+export type TRevalidationTrigger = "onChange" | "onBlur" | "onSubmit";
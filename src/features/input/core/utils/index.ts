@@ -0,0 +1,165 @@
+/**
+ * Input Utility Functions
+ *
+ * This module contains the masking engine of the Input component, formatting values
+ * while typing and keeping the caret on the same character across formatting.
+ * The letters and digits of a value are its raw value, every other character
+ * belongs to the mask. It also interpolates the validation messages.
+ */
+
+import { INPUT_MASKS } from "../constants";
+import type {
+  IMaskedValue,
+  IValidationMessageParams,
+  TInputMask,
+  TInputMaskFunction,
+  TValidationMessage,
+} from "../types";
+
+// Characters kept from the typed value, the others are added by the mask
+const RAW_CHARACTER = /[\p{L}\p{N}]/u;
+
+// Characters accepted by the slots of a mask pattern
+const PATTERN_SLOTS: Record<string, RegExp> = {
+  "9": /\d/,
+  a: /\p{L}/u,
+  "*": RAW_CHARACTER,
+};
+
+/**
+ * Returns the letters and digits of a value.
+ *
+ * @param value - Value to strip
+ * @returns The raw value
+ *
+ * @example
+ * ```ts
+ * getRawValue("(555) 123-4567") // "5551234567"
+ * ```
+ */
+export const getRawValue = (value: string) => {
+  return Array.from(value)
+    .filter((character) => RAW_CHARACTER.test(character))
+    .join("");
+};
+
+/**
+ * Fills the slots of a mask pattern with raw characters, skipping characters a slot
+ * does not accept. Literals are only added before a filled slot, so a partial value
+ * never ends with a separator.
+ *
+ * @param pattern - Mask pattern, `9` for a digit, `a` for a letter and `*` for either
+ * @param raw - Raw characters to place
+ * @returns The formatted value
+ *
+ * @example
+ * ```ts
+ * applyMaskPattern("(999) 999-9999", "5551") // "(555) 1"
+ * ```
+ */
+export const applyMaskPattern = (pattern: string, raw: string) => {
+  const characters = Array.from(raw);
+  let result = "";
+  let literals = "";
+  let index = 0;
+
+  for (const token of pattern) {
+    const slot = PATTERN_SLOTS[token];
+    if (!slot) {
+      literals += token;
+      continue;
+    }
+
+    while (index < characters.length && !slot.test(characters[index])) index++;
+    if (index >= characters.length) break;
+
+    result += literals + characters[index++];
+    literals = "";
+  }
+
+  return result;
+};
+
+/**
+ * Returns the formatting function of a mask.
+ * Names of built-in masks take precedence over patterns.
+ *
+ * @param mask - Built-in mask name, pattern or function mask
+ * @returns The function formatting raw values
+ */
+export const resolveMask = (mask: TInputMask): TInputMaskFunction => {
+  if (typeof mask === "function") return mask;
+
+  const builtIn = Object.prototype.hasOwnProperty.call(INPUT_MASKS, mask)
+    ? INPUT_MASKS[mask as keyof typeof INPUT_MASKS]
+    : mask;
+  return typeof builtIn === "function" ? builtIn : (raw) => applyMaskPattern(builtIn, raw);
+};
+
+/**
+ * Formats a value with a mask. Formatting a formatted value returns it unchanged.
+ *
+ * @param mask - Mask to apply
+ * @param value - Value typed by the user
+ * @returns The formatted and raw values
+ *
+ * @example
+ * ```ts
+ * formatMaskedValue("creditCard", "4111111111111111")
+ * // { value: "4111 1111 1111 1111", raw: "4111111111111111" }
+ * ```
+ */
+export const formatMaskedValue = (mask: TInputMask, value: string): IMaskedValue => {
+  const formatted = resolveMask(mask)(getRawValue(value));
+  return { value: formatted, raw: getRawValue(formatted) };
+};
+
+/**
+ * Returns the caret position after a number of raw characters of a formatted value.
+ *
+ * @param value - Formatted value
+ * @param rawCount - Number of raw characters before the caret
+ * @param skipLiterals - Whether to move the caret past the literals that follow,
+ *   used when typing so the next character lands after a separator
+ * @returns The caret position in the formatted value
+ */
+export const getMaskedCaret = (value: string, rawCount: number, skipLiterals: boolean) => {
+  let position = 0;
+  let count = 0;
+
+  while (position < value.length && count < rawCount) {
+    if (RAW_CHARACTER.test(value[position])) count++;
+    position++;
+  }
+  while (skipLiterals && position < value.length && !RAW_CHARACTER.test(value[position])) {
+    position++;
+  }
+
+  return position;
+};
+
+/**
+ * Formats a validation message, replacing its `{label}`, `{min}` and `{max}` placeholders.
+ * Placeholders without a value are left unchanged.
+ *
+ * @param message - Message string or function
+ * @param params - Values of the placeholders
+ * @returns The formatted message
+ *
+ * @example
+ * ```ts
+ * formatValidationMessage("{label} needs {min} characters", { label: "Name", min: 3 })
+ * // "Name needs 3 characters"
+ * ```
+ */
+export const formatValidationMessage = (
+  message: TValidationMessage,
+  params: IValidationMessageParams
+) => {
+  if (typeof message === "function") return message(params);
+
+  return message.replace(/\{(\w+)\}/g, (placeholder, key: string) => {
+    const value = params[key as keyof IValidationMessageParams];
+    return value === undefined ? placeholder : String(value);
+  });
+};
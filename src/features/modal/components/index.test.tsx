@@ -1,6 +1,7 @@
 import { render, screen } from "@testing-library/react";
 import { describe, expect, it } from "vitest";
 
+import DirectionProvider from "@/components/direction-provider";
 import Button from "@/features/button/components";
 import Modal from "@/features/modal/components";
 
@@ -97,4 +98,15 @@ describe("Modal", () => {
     );
     expect(screen.getByRole("dialog")).toHaveClass("custom-content");
   });
+
+  it("renders in the direction of the DirectionProvider", () => {
+    render(
+      <DirectionProvider dir="rtl">
+        <Modal isOpen={true} onClose={() => {}} title="RTL Modal">
+          Content
+        </Modal>
+      </DirectionProvider>
+    );
+    expect(screen.getByRole("dialog")).toHaveAttribute("dir", "rtl");
+  });
 });
@@ -1,5 +1,6 @@
 import * as Dialog from "@radix-ui/react-dialog";
 
+import { useDirection } from "../../../core/direction";
 import { cn } from "../../../core/utils";
 import Button from "../../button/components";
 import type { IModalProps } from "../core/types";
@@ -31,6 +32,8 @@ const Modal = ({
   trigger,
   classNames = {},
 }: IModalProps) => {
+  const dir = useDirection();
+
   return (
     <Dialog.Root open={isOpen} onOpenChange={closeOnOutsideClick ? onClose : undefined}>
       {/* Modal trigger element */}
@@ -42,6 +45,7 @@ const Modal = ({
         />
         {/* Modal content */}
         <Dialog.Content
+          dir={dir}
           className={cn(
             // Base modal styles
             "fixed left-[50%] top-[50%] translate-x-[-50%] translate-y-[-50%]",
@@ -82,7 +86,7 @@ const Modal = ({
                 size="sm"
                 onClick={onClose}
                 className={cn(
-                  "absolute top-6 right-6 rounded-full cursor-pointer p-2 ml-auto transition-all duration-200 ease-in-out hover:scale-110 hover:bg-gray-100 active:scale-95",
+                  "absolute top-6 end-6 rounded-full cursor-pointer p-2 ms-auto transition-all duration-200 ease-in-out hover:scale-110 hover:bg-gray-100 active:scale-95",
                   classNames.closeButton
                 )}
               >
@@ -0,0 +1,128 @@
+/**
+ * Scheduler Component Stories
+ *
+ * This module contains Storybook stories for the Scheduler component,
+ * showcasing events, multi-day events, crowded days and moving events.
+ */
+
+import type { Meta, StoryObj } from "@storybook/react-vite";
+import { useState } from "react";
+
+import Scheduler from "../components";
+import type { ISchedulerEvent } from "../core/types";
+
+const today = new Date();
+const at = (day: number, hours: number, minutes = 0) =>
+  new Date(today.getFullYear(), today.getMonth(), day, hours, minutes);
+
+const sampleEvents: ISchedulerEvent[] = [
+  { id: 1, title: "Design review", start: at(3, 10), end: at(3, 11), color: "#7c3aed" },
+  { id: 2, title: "Team offsite", start: at(8, 9), end: at(11, 17), color: "#ea580c" },
+  { id: 3, title: "Sprint planning", start: at(10, 9, 30), end: at(10, 11) },
+  { id: 4, title: "1:1 with Sam", start: at(10, 14), end: at(10, 14, 30), color: "#16a34a" },
+  { id: 5, title: "Release", start: at(10, 16), end: at(10, 17), color: "#dc2626" },
+  { id: 6, title: "Retro", start: at(10, 17), end: at(10, 18), color: "#0891b2" },
+  { id: 7, title: "Conference", start: at(20, 8), end: at(24, 0), color: "#db2777" },
+];
+
+/**
+ * Story configuration for the Scheduler component
+ * Defines component metadata, documentation, and available controls
+ */
+const meta = {
+  title: "Components/Scheduler",
+  component: Scheduler,
+  tags: ["autodocs"],
+  parameters: {
+    layout: "padded",
+    docs: {
+      description: {
+        component: `
+A month view of events built on the grid of the Calendar.
+
+## Features
+- Stacked event chips per day, with the event colors
+- Multi-day events spanning day cells
+- "+N more" popover listing every event of a crowded day
+- Click, double-click and drag-to-move callbacks
+
+## Usage
+\`\`\`tsx
+import { Scheduler } from "@mohammadbekran/fancy-ui";
+
+function MyComponent() {
+  const [events, setEvents] = useState<ISchedulerEvent[]>(initialEvents);
+
+  return (
+    <Scheduler
+      events={events}
+      onEventMove={(event, move) =>
+        setEvents((events) => events.map((e) => (e === event ? { ...e, ...move } : e)))
+      }
+    />
+  );
+}
+\`\`\`
+        `,
+      },
+    },
+  },
+  args: {
+    events: sampleEvents,
+  },
+  argTypes: {
+    locale: {
+      control: "select",
+      options: ["en-US", "fr-FR", "de-DE", "es-ES", "pt-BR"],
+      description: "Locale for weekday names, month titles and the first day of the week",
+    },
+    maxEvents: {
+      control: { type: "number", min: 1, max: 6 },
+      description: 'Number of event rows shown per day before the "+N more" button',
+    },
+    fixedWeeks: {
+      control: "boolean",
+      description: "Whether to always show 6 weeks",
+    },
+  },
+} satisfies Meta<typeof Scheduler>;
+
+export default meta;
+
+/**
+ * Story type definition for Scheduler component stories
+ */
+type TStory = StoryObj<typeof Scheduler>;
+
+/**
+ * Default scheduler with sample events of the current month
+ */
+export const Default: TStory = {};
+
+/**
+ * Two event rows per day, crowded days show a "+N more" popover
+ */
+export const WithOverflow: TStory = {
+  args: {
+    maxEvents: 2,
+  },
+};
+
+/**
+ * Events moved by dragging them or with Alt and the arrow keys
+ */
+export const DragToMove: TStory = {
+  render: (args) => {
+    const [events, setEvents] = useState(sampleEvents);
+
+    return (
+      <Scheduler
+        {...args}
+        events={events}
+        onEventMove={(event, move) =>
+          setEvents((events) => events.map((e) => (e === event ? { ...e, ...move } : e)))
+        }
+      />
+    );
+  },
+};
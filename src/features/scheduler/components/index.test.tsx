@@ -0,0 +1,215 @@
+/**
+ * Scheduler Component Tests
+ *
+ * This module contains test suites for the Scheduler component,
+ * ensuring proper functionality and edge cases are handled correctly.
+ * Tests are organized by feature and include:
+ * - Event chips in the month grid
+ * - Multi-day events spanning day cells
+ * - "+N more" overflow popover
+ * - Click, double-click and move callbacks
+ * - Month navigation
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { createEvent, fireEvent, render, screen, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+
+import Scheduler from "../components";
+import type { ISchedulerEvent } from "../core/types";
+
+describe("Scheduler", () => {
+  const mockOnEventClick = vi.fn();
+  const mockOnEventDoubleClick = vi.fn();
+  const mockOnEventMove = vi.fn();
+  const mockOnMonthChange = vi.fn();
+  const month = new Date(2025, 2, 1); // March 2025
+
+  const teamSync: ISchedulerEvent = {
+    id: "sync",
+    title: "Team sync",
+    start: new Date(2025, 2, 10, 9, 0),
+    end: new Date(2025, 2, 10, 10, 0),
+    color: "#16a34a",
+  };
+  const offsite: ISchedulerEvent = {
+    id: "offsite",
+    title: "Offsite",
+    start: new Date(2025, 2, 14, 8, 0), // Friday
+    end: new Date(2025, 2, 18, 0, 0), // Tuesday at midnight, so it ends on Monday
+  };
+
+  const dayCell = (name: string) => screen.getByRole("gridcell", { name });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("Events", () => {
+    it("shows events as chips in their day cells", () => {
+      render(<Scheduler events={[teamSync]} defaultMonth={month} />);
+
+      expect(screen.getByRole("grid", { name: "March 2025" })).toBeInTheDocument();
+      const chip = within(dayCell("Monday, March 10, 2025")).getByRole("button", {
+        name: "Team sync, Mar 10, 2025, 9:00 AM – 10:00 AM",
+      });
+      expect(chip).toHaveTextContent("Team sync");
+      expect(chip).toHaveStyle({ backgroundColor: "#16a34a" });
+    });
+
+    it("splits multi-day events at the week edges", () => {
+      render(<Scheduler events={[offsite]} defaultMonth={month} weekStartsOn={0} />);
+
+      const chips = screen.getAllByRole("button", { name: /^Offsite/ });
+      expect(chips).toHaveLength(2);
+      expect(dayCell("Friday, March 14, 2025")).toContainElement(chips[0]);
+      expect(chips[0]).toHaveClass("rounded-e-none");
+      expect(dayCell("Sunday, March 16, 2025")).toContainElement(chips[1]);
+      expect(chips[1]).toHaveClass("rounded-s-none");
+      expect(within(dayCell("Tuesday, March 18, 2025")).queryByRole("button")).toBeNull();
+    });
+  });
+
+  describe("Overflow", () => {
+    const busyDay = Array.from({ length: 4 }).map(
+      (_, i): ISchedulerEvent => ({
+        title: `Meeting ${i + 1}`,
+        start: new Date(2025, 2, 12, 9 + i),
+        end: new Date(2025, 2, 12, 10 + i),
+      })
+    );
+
+    it("lists hidden events in a popover", async () => {
+      const user = userEvent.setup();
+      render(<Scheduler events={busyDay} defaultMonth={month} maxEvents={2} />);
+
+      const cell = dayCell("Wednesday, March 12, 2025");
+      expect(within(cell).getAllByRole("button", { name: /^Meeting/ })).toHaveLength(2);
+
+      const more = within(cell).getByRole("button", {
+        name: "2 more events, Wednesday, March 12, 2025",
+      });
+      expect(more).toHaveTextContent("+2 more");
+      await user.click(more);
+
+      const popover = screen.getByRole("dialog", { name: "Wednesday, March 12, 2025" });
+      expect(popover).toHaveFocus();
+      expect(within(popover).getAllByRole("button", { name: /^Meeting/ })).toHaveLength(4);
+
+      await user.keyboard("{Escape}");
+      expect(screen.queryByRole("dialog")).not.toBeInTheDocument();
+      expect(more).toHaveFocus();
+    });
+  });
+
+  describe("Callbacks", () => {
+    it("fires click and double-click callbacks with the event", async () => {
+      const user = userEvent.setup();
+      render(
+        <Scheduler
+          events={[teamSync]}
+          defaultMonth={month}
+          onEventClick={mockOnEventClick}
+          onEventDoubleClick={mockOnEventDoubleClick}
+        />
+      );
+
+      await user.dblClick(screen.getByRole("button", { name: /^Team sync/ }));
+
+      expect(mockOnEventClick).toHaveBeenCalledWith(teamSync, expect.anything());
+      expect(mockOnEventDoubleClick).toHaveBeenCalledTimes(1);
+      expect(mockOnEventDoubleClick).toHaveBeenCalledWith(teamSync, expect.anything());
+    });
+
+    it("moves an event dropped on another day, keeping its times", () => {
+      render(<Scheduler events={[teamSync]} defaultMonth={month} onEventMove={mockOnEventMove} />);
+
+      const chip = screen.getByRole("button", { name: /^Team sync/ });
+      const target = dayCell("Thursday, March 13, 2025");
+      const dataTransfer = { setData: vi.fn(), effectAllowed: "", dropEffect: "" };
+      expect(chip).toHaveAttribute("draggable", "true");
+
+      fireEvent.dragStart(chip, { dataTransfer });
+      fireEvent.dragOver(target, { dataTransfer });
+      fireEvent.drop(target, { dataTransfer });
+
+      expect(mockOnEventMove).toHaveBeenCalledWith(teamSync, {
+        start: new Date(2025, 2, 13, 9, 0),
+        end: new Date(2025, 2, 13, 10, 0),
+      });
+    });
+
+    it("moves a multi-day event by the day it was grabbed by", () => {
+      const workshop: ISchedulerEvent = {
+        title: "Workshop",
+        start: new Date(2025, 2, 11, 9, 0), // Tuesday
+        end: new Date(2025, 2, 13, 17, 0), // Thursday
+      };
+      render(<Scheduler events={[workshop]} defaultMonth={month} onEventMove={mockOnEventMove} />);
+
+      // Grab the chip, stretched over three 100px cells, by its last day
+      const chip = screen.getByRole("button", { name: /^Workshop/ });
+      vi.spyOn(chip, "getBoundingClientRect").mockReturnValue(new DOMRect(0, 0, 300, 20));
+      const target = dayCell("Thursday, March 20, 2025");
+      const dataTransfer = { setData: vi.fn(), effectAllowed: "", dropEffect: "" };
+
+      // jsdom has no DragEvent, so its pointer position is set on the event
+      const dragStart = createEvent.dragStart(chip, { dataTransfer });
+      Object.defineProperty(dragStart, "clientX", { value: 250 });
+      fireEvent(chip, dragStart);
+      fireEvent.dragOver(target, { dataTransfer });
+      fireEvent.drop(target, { dataTransfer });
+
+      expect(mockOnEventMove).toHaveBeenCalledWith(workshop, {
+        start: new Date(2025, 2, 18, 9, 0),
+        end: new Date(2025, 2, 20, 17, 0),
+      });
+    });
+
+    it("moves events with Alt and the arrow keys", async () => {
+      const user = userEvent.setup();
+      render(<Scheduler events={[offsite]} defaultMonth={month} onEventMove={mockOnEventMove} />);
+
+      screen.getAllByRole("button", { name: /^Offsite/ })[0].focus();
+      await user.keyboard("{Alt>}{ArrowDown}{/Alt}");
+
+      expect(mockOnEventMove).toHaveBeenCalledWith(offsite, {
+        start: new Date(2025, 2, 21, 8, 0),
+        end: new Date(2025, 2, 25, 0, 0),
+      });
+
+      await user.keyboard("{ArrowRight}");
+      expect(mockOnEventMove).toHaveBeenCalledTimes(1);
+    });
+
+    it("does not drag events without onEventMove", () => {
+      render(<Scheduler events={[teamSync]} defaultMonth={month} />);
+      expect(screen.getByRole("button", { name: /^Team sync/ })).toHaveAttribute(
+        "draggable",
+        "false"
+      );
+    });
+  });
+
+  describe("Navigation", () => {
+    it("navigates between months", async () => {
+      const user = userEvent.setup();
+      render(<Scheduler events={[]} defaultMonth={month} onMonthChange={mockOnMonthChange} />);
+
+      await user.click(screen.getByRole("button", { name: "Next month" }));
+
+      expect(screen.getByRole("grid", { name: "April 2025" })).toBeInTheDocument();
+      expect(mockOnMonthChange).toHaveBeenCalledWith(new Date(2025, 3, 1));
+    });
+
+    it("only changes a controlled month through the parent", async () => {
+      const user = userEvent.setup();
+      render(<Scheduler events={[]} month={month} onMonthChange={mockOnMonthChange} />);
+
+      await user.click(screen.getByRole("button", { name: "Previous month" }));
+
+      expect(mockOnMonthChange).toHaveBeenCalledWith(new Date(2025, 1, 1));
+      expect(screen.getByRole("grid", { name: "March 2025" })).toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,385 @@
+import React, { useMemo, useRef, useState } from "react";
+
+import { isRtlElement, useDirection } from "../../../core/direction";
+import { cn } from "../../../core/utils";
+import Button from "../../button/components";
+import {
+  addCalendarMonths,
+  addDays,
+  differenceInDays,
+  getCalendarLocale,
+  getDayKey,
+  getLocaleWeekStartsOn,
+  getMonthWeeks,
+  getWeekdays,
+  isSameDay,
+  startOfCalendarMonth,
+  startOfDay,
+} from "../../calendar/core/utils";
+import type { ISchedulerEvent, ISchedulerEventSegment, ISchedulerProps } from "../core/types";
+import { getEventDays, getWeekSegments, isEventOnDay, moveEvent } from "../core/utils";
+import SchedulerEventChip from "./scheduler-event-chip";
+import SchedulerOverflow from "./scheduler-overflow";
+
+// Height of an event row in pixels, a chip and the gap below it
+const LANE_HEIGHT = 24;
+
+/**
+ * Scheduler Component
+ *
+ * A month view of events built on the grid computation of the Calendar.
+ *
+ * Features:
+ * - Stacked event chips per day, with the event colors
+ * - Multi-day events spanning day cells, split at the week edges
+ * - "+N more" popover listing every event of a crowded day
+ * - Click, double-click and drag-to-move callbacks
+ * - Moving events with Alt and the arrow keys
+ * - Controlled and uncontrolled displayed month
+ * - Locale-aware weekday names, first day of the week and calendar systems
+ *
+ * Accessibility Features:
+ * - ARIA grid with labelled day cells
+ * - Event chips labelled with their title and dates
+ * - Focus management of the day popovers
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <Scheduler
+ *   events={events}
+ *   onEventClick={(event) => openEvent(event.id)}
+ *   onEventMove={(event, { start, end }) => reschedule(event.id, start, end)}
+ * />
+ * ```
+ */
+const Scheduler = ({
+  events,
+  month: controlledMonth,
+  defaultMonth,
+  onMonthChange,
+  today: todayProp,
+  locale = "en-US",
+  calendar = "gregory",
+  weekStartsOn: weekStartsOnProp,
+  fixedWeeks = false,
+  maxEvents = 3,
+  onEventClick,
+  onEventDoubleClick,
+  onEventMove,
+  onDayClick,
+  classNames,
+}: ISchedulerProps) => {
+  const today = startOfDay(todayProp ?? new Date());
+  const [uncontrolledMonth, setUncontrolledMonth] = useState(() =>
+    startOfCalendarMonth(defaultMonth ?? today, calendar)
+  );
+  const [dropDate, setDropDate] = useState<Date | null>(null);
+  // Event being dragged and the day of its chip it was grabbed by
+  const dragged = useRef<{ event: ISchedulerEvent; from: Date } | null>(null);
+  const dir = useDirection();
+
+  // The month is controlled by passing `month`
+  const currentMonth = controlledMonth
+    ? startOfCalendarMonth(controlledMonth, calendar)
+    : uncontrolledMonth;
+  const weekStartsOn = weekStartsOnProp ?? getLocaleWeekStartsOn(locale);
+  const calendarLocale = getCalendarLocale(locale, calendar);
+
+  // Week rows of the month with the event segments laid out on them
+  const weeks = useMemo(
+    () =>
+      getMonthWeeks(currentMonth, weekStartsOn, fixedWeeks, calendar).map((days) => ({
+        days,
+        segments: getWeekSegments(events, days[0].date),
+      })),
+    [calendar, currentMonth, events, fixedWeeks, weekStartsOn]
+  );
+
+  // Weekday names in the locale, starting with the first day of the week
+  const weekdays = useMemo(() => getWeekdays(locale, weekStartsOn), [locale, weekStartsOn]);
+
+  const changeMonth = (amount: number) => {
+    const newMonth = addCalendarMonths(currentMonth, amount, calendar);
+    setUncontrolledMonth(newMonth);
+    onMonthChange?.(newMonth);
+  };
+
+  const formatDay = (date: Date) =>
+    date.toLocaleDateString(calendarLocale, {
+      weekday: "long",
+      month: "long",
+      day: "numeric",
+      year: "numeric",
+    });
+
+  // Label an event with its title and dates, omitting the end date of same-day events
+  const formatEventLabel = ({ title, start, end }: ISchedulerEvent) => {
+    const formatTime = (date: Date) =>
+      date.toLocaleTimeString(calendarLocale, { timeStyle: "short" });
+    const formatDate = (date: Date) =>
+      date.toLocaleDateString(calendarLocale, { dateStyle: "medium" });
+
+    return isSameDay(start, end)
+      ? `${title}, ${formatDate(start)}, ${formatTime(start)} – ${formatTime(end)}`
+      : `${title}, ${formatDate(start)}, ${formatTime(start)} – ${formatDate(end)}, ${formatTime(end)}`;
+  };
+
+  const handleMove = (event: ISchedulerEvent, days: number) => {
+    if (days !== 0) onEventMove?.(event, moveEvent(event, days));
+  };
+
+  // Move an event by a day with Alt and the horizontal arrows, or by a week with the vertical ones
+  const handleEventKeyDown = (
+    e: React.KeyboardEvent<HTMLButtonElement>,
+    event: ISchedulerEvent
+  ) => {
+    if (!onEventMove || !e.altKey) return;
+
+    // Horizontal arrows follow the reading direction
+    const [left, right] = isRtlElement(e.currentTarget) ? [1, -1] : [-1, 1];
+    const days = { ArrowLeft: left, ArrowRight: right, ArrowUp: -7, ArrowDown: 7 }[e.key];
+    if (days === undefined) return;
+
+    e.preventDefault();
+    handleMove(event, days);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>, date: Date) => {
+    if (!dragged.current) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "move";
+    if (!dropDate || !isSameDay(dropDate, date)) setDropDate(date);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>, date: Date) => {
+    if (!dragged.current) return;
+    e.preventDefault();
+    const { event, from } = dragged.current;
+    handleMove(event, differenceInDays(date, from));
+    dragged.current = null;
+    setDropDate(null);
+  };
+
+  // Day of a chip under the pointer, the chip of a segment stretching over `span` days
+  const getGrabbedDay = (e: React.DragEvent<HTMLElement>, from: Date, span: number) => {
+    const { left, width } = e.currentTarget.getBoundingClientRect();
+    if (span === 1 || width === 0) return from;
+
+    const column = Math.min(Math.max(Math.floor(((e.clientX - left) / width) * span), 0), span - 1);
+    // Segments start on the right in RTL
+    return addDays(from, isRtlElement(e.currentTarget) ? span - 1 - column : column);
+  };
+
+  // Render the chip of an event starting on the given day and stretching over `span` days
+  const renderEventChip = (
+    event: ISchedulerEvent,
+    from: Date,
+    span: number,
+    props: Pick<
+      React.ComponentProps<typeof SchedulerEventChip>,
+      "continuesBefore" | "continuesAfter" | "style"
+    >
+  ) => (
+    <SchedulerEventChip
+      key={event.id ?? events.indexOf(event)}
+      event={event}
+      aria-label={formatEventLabel(event)}
+      draggable={!!onEventMove}
+      onDragStart={(e) => {
+        dragged.current = { event, from: getGrabbedDay(e, from, span) };
+        e.dataTransfer.effectAllowed = "move";
+        e.dataTransfer.setData("text/plain", event.title);
+      }}
+      onClick={(e) => onEventClick?.(event, e)}
+      onDoubleClick={(e) => onEventDoubleClick?.(event, e)}
+      onKeyDown={(e) => handleEventKeyDown(e, event)}
+      className={classNames?.event}
+      {...props}
+    />
+  );
+
+  // Render the segments starting on a day, stretched over the following cells
+  const renderSegment = ({ event, start, span, lane, ...segment }: ISchedulerEventSegment) =>
+    renderEventChip(event, start, span, {
+      continuesBefore: segment.continuesBefore,
+      continuesAfter: segment.continuesAfter,
+      style: {
+        position: "absolute",
+        zIndex: 10,
+        top: lane * LANE_HEIGHT,
+        insetInlineStart: 4,
+        // Cells are separated by 1px gaps, chips keep 4px from the cell edges
+        width: `calc(${span * 100}% + ${span - 1}px - 8px)`,
+      },
+    });
+
+  // Render the popover chips of every event of a day
+  const renderDayEvents = (date: Date) =>
+    events
+      .filter((event) => isEventOnDay(event, date))
+      .sort((a, b) => a.start.getTime() - b.start.getTime())
+      .map((event) => {
+        const { first, last } = getEventDays(event);
+        return renderEventChip(event, date, 1, {
+          continuesBefore: first < date,
+          continuesAfter: last > date,
+        });
+      });
+
+  const renderDay = (
+    { date, isOutside }: { date: Date; isOutside: boolean },
+    column: number,
+    segments: ISchedulerEventSegment[]
+  ) => {
+    const isToday = isSameDay(date, today);
+    const isDropTarget = !!dropDate && isSameDay(dropDate, date);
+    const label = formatDay(date);
+    const hiddenCount = segments.filter(
+      (segment) =>
+        segment.lane >= maxEvents &&
+        segment.column <= column &&
+        column < segment.column + segment.span
+    ).length;
+    const dayNumber = date.toLocaleDateString(calendarLocale, { day: "numeric" });
+
+    return (
+      <div
+        key={getDayKey(date)}
+        role="gridcell"
+        aria-label={label}
+        data-date={getDayKey(date)}
+        onDragOver={(e) => handleDragOver(e, date)}
+        onDragLeave={() => isDropTarget && setDropDate(null)}
+        onDrop={(e) => handleDrop(e, date)}
+        className={cn(
+          "flex min-h-28 flex-col gap-1 bg-white py-1 transition-colors duration-300",
+          classNames?.day,
+          isOutside && ["bg-gray-50 text-gray-400", classNames?.outsideDay],
+          isToday && classNames?.today,
+          isDropTarget && "bg-blue-50"
+        )}
+      >
+        {/* Day number, clickable when onDayClick is set */}
+        <div className="px-1">
+          {onDayClick ? (
+            <button
+              type="button"
+              aria-label={label}
+              aria-current={isToday ? "date" : undefined}
+              onClick={() => onDayClick(date)}
+              className={cn(
+                "h-6 min-w-6 rounded-full px-1 text-xs font-medium",
+                "transition-all duration-300 cursor-pointer hover:bg-gray-100",
+                isToday && "bg-blue-600 text-white hover:bg-blue-700"
+              )}
+            >
+              {dayNumber}
+            </button>
+          ) : (
+            <span
+              aria-current={isToday ? "date" : undefined}
+              className={cn(
+                "inline-flex h-6 min-w-6 items-center justify-center rounded-full px-1",
+                "text-xs font-medium",
+                isToday && "bg-blue-600 text-white"
+              )}
+            >
+              {dayNumber}
+            </span>
+          )}
+        </div>
+        {/* Event rows, chips of multi-day events overflow into the next cells */}
+        <div className="relative" style={{ height: maxEvents * LANE_HEIGHT }}>
+          {segments
+            .filter((segment) => segment.column === column && segment.lane < maxEvents)
+            .map(renderSegment)}
+        </div>
+        {hiddenCount > 0 && (
+          <div className="px-1">
+            <SchedulerOverflow count={hiddenCount} label={label} classNames={classNames}>
+              {renderDayEvents(date)}
+            </SchedulerOverflow>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const monthLabel = currentMonth.toLocaleDateString(calendarLocale, {
+    month: "long",
+    year: "numeric",
+  });
+
+  return (
+    <div
+      dir={dir}
+      className={cn(
+        "w-full rounded-xl border border-gray-200 bg-white p-4 shadow-sm",
+        classNames?.root
+      )}
+      onDragEnd={() => {
+        dragged.current = null;
+        setDropDate(null);
+      }}
+    >
+      {/* Month navigation header */}
+      <div className={cn("mb-4 flex items-center justify-between", classNames?.header)}>
+        <Button
+          variant="outline"
+          size="sm"
+          aria-label="Previous month"
+          onClick={() => changeMonth(-1)}
+          className={cn("rounded-full border-0 p-2", classNames?.navButton)}
+        >
+          {/* Arrows point the other way in RTL, where the previous month is on the right */}
+          <span className="inline-block rtl:-scale-x-100">←</span>
+        </Button>
+        <h2
+          aria-live="polite"
+          className={cn("text-lg font-semibold text-gray-900", classNames?.title)}
+        >
+          {monthLabel}
+        </h2>
+        <Button
+          variant="outline"
+          size="sm"
+          aria-label="Next month"
+          onClick={() => changeMonth(1)}
+          className={cn("rounded-full border-0 p-2", classNames?.navButton)}
+        >
+          <span className="inline-block rtl:-scale-x-100">→</span>
+        </Button>
+      </div>
+      {/* Month grid */}
+      <div
+        role="grid"
+        aria-label={monthLabel}
+        className="flex flex-col gap-px border border-gray-200 bg-gray-200"
+      >
+        <div role="row" className="grid grid-cols-7 gap-px">
+          {weekdays.map((weekday) => (
+            <div
+              key={weekday.day}
+              role="columnheader"
+              aria-label={weekday.longName}
+              className={cn(
+                "bg-white py-2 text-center text-xs font-medium text-gray-500",
+                classNames?.weekday
+              )}
+            >
+              {weekday.shortName}
+            </div>
+          ))}
+        </div>
+        {weeks.map(({ days, segments }) => (
+          <div key={getDayKey(days[0].date)} role="row" className="grid grid-cols-7 gap-px">
+            {days.map((day, column) => renderDay(day, column, segments))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default Scheduler;
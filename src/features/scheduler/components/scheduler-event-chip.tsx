@@ -0,0 +1,49 @@
+import { cn } from "../../../core/utils";
+import type { ISchedulerEventChipProps } from "../core/types";
+
+/**
+ * Chip of an event in the Scheduler month grid and day popovers.
+ * Uses the event color as background and squares the sides where the event continues.
+ */
+const SchedulerEventChip = ({
+  event,
+  "aria-label": ariaLabel,
+  continuesBefore,
+  continuesAfter,
+  draggable,
+  onDragStart,
+  onClick,
+  onDoubleClick,
+  onKeyDown,
+  style,
+  className,
+}: ISchedulerEventChipProps) => (
+  <button
+    type="button"
+    aria-label={ariaLabel}
+    draggable={draggable}
+    onDragStart={onDragStart}
+    onClick={onClick}
+    onDoubleClick={onDoubleClick}
+    onKeyDown={onKeyDown}
+    style={{ backgroundColor: event.color, ...style }}
+    className={cn(
+      "block h-5 w-full truncate rounded-md px-2",
+      "text-start text-xs font-medium leading-5 text-white",
+      "shadow-sm transition-all duration-300 cursor-pointer",
+      "hover:shadow-md hover:brightness-110",
+      "focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-1",
+      {
+        "bg-gradient-to-br from-blue-500 to-blue-600": !event.color,
+        "rounded-s-none": continuesBefore,
+        "rounded-e-none": continuesAfter,
+        "cursor-grab active:cursor-grabbing": draggable,
+      },
+      className
+    )}
+  >
+    {event.title}
+  </button>
+);
+
+export default SchedulerEventChip;
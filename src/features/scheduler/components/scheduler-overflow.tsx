@@ -0,0 +1,54 @@
+import { usePopover } from "../../../core/popover";
+import { cn } from "../../../core/utils";
+import type { ISchedulerOverflowProps } from "../core/types";
+
+/**
+ * "+N more" button of a Scheduler day cell with hidden events.
+ * Opens a popover listing every event of the day, closed by an outside click or Escape.
+ */
+const SchedulerOverflow = ({ count, label, children, classNames }: ISchedulerOverflowProps) => {
+  const { isOpen, setOpen, rootRef, contentRef, contentId, handleContentKeyDown } = usePopover({
+    triggerSelector: "button",
+  });
+
+  return (
+    <div ref={rootRef} className="relative">
+      <button
+        type="button"
+        aria-label={`${count} more ${count === 1 ? "event" : "events"}, ${label}`}
+        aria-haspopup="dialog"
+        aria-expanded={isOpen}
+        aria-controls={isOpen ? contentId : undefined}
+        onClick={() => setOpen(!isOpen)}
+        className={cn(
+          "w-full truncate rounded-md px-2 text-start text-xs font-medium text-gray-600",
+          "transition-all duration-300 cursor-pointer hover:bg-gray-100",
+          classNames?.more
+        )}
+      >
+        +{count} more
+      </button>
+      {isOpen && (
+        <div
+          ref={contentRef}
+          id={contentId}
+          role="dialog"
+          aria-label={label}
+          tabIndex={-1}
+          onKeyDown={handleContentKeyDown}
+          className={cn(
+            "absolute start-0 top-0 z-20 w-52 p-3",
+            "rounded-lg border border-gray-200 bg-white shadow-xl",
+            "focus:outline-none",
+            classNames?.popover
+          )}
+        >
+          <div className="mb-2 text-xs font-medium text-gray-500">{label}</div>
+          <div className="flex flex-col gap-1">{children}</div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SchedulerOverflow;
@@ -0,0 +1,171 @@
+/**
+ * Scheduler Component Type Definitions
+ *
+ * This module contains TypeScript type definitions for the Scheduler component,
+ * ensuring type safety and providing comprehensive documentation for developers.
+ * The types are designed to be extensible while maintaining strict type checking.
+ */
+
+import type React from "react";
+
+import type { TCalendarSystem, TWeekday } from "../../../calendar/core/types";
+
+/**
+ * Event shown by the scheduler
+ */
+export interface ISchedulerEvent {
+  /** Stable identifier of the event, defaults to its index in `events` */
+  id?: string | number;
+  /** Start of the event */
+  start: Date;
+  /**
+   * End of the event. An end at midnight is exclusive, so an event
+   * from Monday 00:00 to Tuesday 00:00 only covers Monday.
+   */
+  end: Date;
+  /** Title displayed in the event chip */
+  title: string;
+  /** CSS color of the event chip */
+  color?: string;
+}
+
+/**
+ * Part of an event within a week row of the month grid.
+ * Multi-day events have one segment per week they cover.
+ */
+export interface ISchedulerEventSegment {
+  /** Event of the segment */
+  event: ISchedulerEvent;
+  /** First day of the segment */
+  start: Date;
+  /** Index of the first day of the segment in its week, from 0 to 6 */
+  column: number;
+  /** Number of days covered by the segment */
+  span: number;
+  /** Row of the segment in its week, stacked from the top */
+  lane: number;
+  /** Whether the event continues from the previous week */
+  continuesBefore: boolean;
+  /** Whether the event continues into the next week */
+  continuesAfter: boolean;
+}
+
+/**
+ * New dates of an event moved by dragging
+ */
+export interface ISchedulerEventMove {
+  /** New start of the event */
+  start: Date;
+  /** New end of the event */
+  end: Date;
+}
+
+/**
+ * Custom class names for styling the parts of the scheduler
+ */
+export interface ISchedulerClasses {
+  /** Root container of the scheduler */
+  root?: string;
+  /** Header with the month navigation */
+  header?: string;
+  /** Title of the displayed month */
+  title?: string;
+  /** Previous and next month buttons */
+  navButton?: string;
+  /** Weekday column headers */
+  weekday?: string;
+  /** Day cells of the month grid */
+  day?: string;
+  /** Day cells of the previous and next months */
+  outsideDay?: string;
+  /** Day cell of today */
+  today?: string;
+  /** Event chips */
+  event?: string;
+  /** "+N more" buttons of days with hidden events */
+  more?: string;
+  /** Popover listing every event of a day */
+  popover?: string;
+}
+
+/**
+ * Scheduler component props interface.
+ * Provides configuration options for the month view and its event callbacks.
+ */
+export interface ISchedulerProps {
+  /** Events to display */
+  events: ISchedulerEvent[];
+  /** Displayed month, to control it */
+  month?: Date;
+  /** Month displayed first when the month is not controlled */
+  defaultMonth?: Date;
+  /** Callback when the displayed month changes */
+  onMonthChange?: (month: Date) => void;
+  /** Day shown as today, defaults to the current date */
+  today?: Date;
+  /** BCP 47 locale used for weekday, month and event date labels */
+  locale?: string;
+  /** Calendar system defining the months, defaults to `gregory` */
+  calendar?: TCalendarSystem;
+  /** First day of the week (0 = Sunday), defaults to the locale's first day */
+  weekStartsOn?: TWeekday;
+  /** Whether to always show 6 weeks */
+  fixedWeeks?: boolean;
+  /** Number of event rows shown per day before the "+N more" button */
+  maxEvents?: number;
+  /** Callback when an event is clicked */
+  onEventClick?: (event: ISchedulerEvent, e: React.MouseEvent<HTMLButtonElement>) => void;
+  /** Callback when an event is double-clicked */
+  onEventDoubleClick?: (event: ISchedulerEvent, e: React.MouseEvent<HTMLButtonElement>) => void;
+  /**
+   * Callback when an event is moved to another day, by dragging it or with
+   * Alt and the arrow keys. Events can only be moved when it is set.
+   */
+  onEventMove?: (event: ISchedulerEvent, move: ISchedulerEventMove) => void;
+  /** Callback when the number of a day is clicked */
+  onDayClick?: (date: Date) => void;
+  /** Custom class names for styling different parts of the scheduler */
+  classNames?: ISchedulerClasses;
+}
+
+/**
+ * Props of the event chips of the scheduler
+ */
+export interface ISchedulerEventChipProps {
+  /** Event of the chip */
+  event: ISchedulerEvent;
+  /** Accessible label with the title and dates of the event */
+  "aria-label": string;
+  /** Whether the event continues from an earlier day */
+  continuesBefore?: boolean;
+  /** Whether the event continues to a later day */
+  continuesAfter?: boolean;
+  /** Whether the chip can be dragged to another day */
+  draggable?: boolean;
+  /** Callback when the chip starts being dragged */
+  onDragStart?: (e: React.DragEvent<HTMLButtonElement>) => void;
+  /** Callback when the chip is clicked */
+  onClick?: (e: React.MouseEvent<HTMLButtonElement>) => void;
+  /** Callback when the chip is double-clicked */
+  onDoubleClick?: (e: React.MouseEvent<HTMLButtonElement>) => void;
+  /** Callback when a key is pressed on the chip */
+  onKeyDown?: (e: React.KeyboardEvent<HTMLButtonElement>) => void;
+  /** Inline styles positioning the chip */
+  style?: React.CSSProperties;
+  /** Additional class names */
+  className?: string;
+}
+
+/**
+ * Props of the "+N more" button and popover of a day with hidden events
+ */
+export interface ISchedulerOverflowProps {
+  /** Number of events hidden in the day cell */
+  count: number;
+  /** Label of the day, used as the popover title */
+  label: string;
+  /** Event chips of every event of the day */
+  children: React.ReactNode;
+  /** Custom class names for the button and the popover */
+  classNames?: Pick<ISchedulerClasses, "more" | "popover">;
+}
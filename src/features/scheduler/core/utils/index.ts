@@ -0,0 +1,106 @@
+/**
+ * Scheduler Utility Functions
+ *
+ * This module contains the event layout helpers used by the Scheduler component.
+ * Events are laid out on the week rows computed by the Calendar utilities.
+ * Helpers never mutate their arguments.
+ */
+
+import { addDays, differenceInDays, startOfDay } from "../../../calendar/core/utils";
+import type { ISchedulerEvent, ISchedulerEventMove, ISchedulerEventSegment } from "../types";
+
+/**
+ * Returns the first and last calendar days covered by an event.
+ * An end at midnight is exclusive, unless the event has no duration.
+ *
+ * @param event - Event to inspect
+ * @returns The first and last days of the event
+ */
+export const getEventDays = ({ start, end }: ISchedulerEvent) => {
+  const first = startOfDay(start);
+  const endDay = startOfDay(end);
+  const last = end > start && end.getTime() === endDay.getTime() ? addDays(endDay, -1) : endDay;
+  return { first, last: last < first ? first : last };
+};
+
+/**
+ * Checks whether an event covers a calendar day.
+ *
+ * @param event - Event to check
+ * @param day - Calendar day
+ */
+export const isEventOnDay = (event: ISchedulerEvent, day: Date) => {
+  const { first, last } = getEventDays(event);
+  return first <= day && day <= last;
+};
+
+/**
+ * Lays out the events of a week row, splitting multi-day events at the week edges.
+ * Longer events come first and every segment gets the lowest lane free on all its days.
+ *
+ * @param events - Events to lay out
+ * @param weekStart - First day of the week row
+ * @returns The segments of the events covering the week, ordered by lane
+ *
+ * @example
+ * ```ts
+ * // A Friday to Monday event is split into two segments
+ * getWeekSegments([trip], sunday) // [{ column: 5, span: 2, continuesAfter: true, ... }]
+ * ```
+ */
+export const getWeekSegments = (events: ISchedulerEvent[], weekStart: Date) => {
+  const weekEnd = addDays(weekStart, 6);
+
+  const weekEvents = events
+    .map((event) => ({ event, ...getEventDays(event) }))
+    .filter(({ first, last }) => first <= weekEnd && last >= weekStart)
+    .sort(
+      (a, b) =>
+        differenceInDays(a.first, b.first) ||
+        differenceInDays(b.last, b.first) - differenceInDays(a.last, a.first) ||
+        a.event.start.getTime() - b.event.start.getTime()
+    );
+
+  // Days taken in every lane, indexed by column
+  const lanes: boolean[][] = [];
+
+  return weekEvents
+    .map(({ event, first, last }): ISchedulerEventSegment => {
+      const start = first < weekStart ? weekStart : first;
+      const end = last > weekEnd ? weekEnd : last;
+      const column = differenceInDays(start, weekStart);
+      const span = differenceInDays(end, start) + 1;
+      const columns = Array.from({ length: span }).map((_, i) => column + i);
+
+      let lane = lanes.findIndex((taken) => columns.every((c) => !taken[c]));
+      if (lane === -1) lane = lanes.push([]) - 1;
+      columns.forEach((c) => (lanes[lane][c] = true));
+
+      return {
+        event,
+        start,
+        column,
+        span,
+        lane,
+        continuesBefore: first < weekStart,
+        continuesAfter: last > weekEnd,
+      };
+    })
+    .sort((a, b) => a.lane - b.lane || a.column - b.column);
+};
+
+/**
+ * Moves an event by a number of days, keeping its times of day and duration.
+ *
+ * @param event - Event to move
+ * @param days - Number of days to move the event by, may be negative
+ * @returns The new start and end of the event
+ */
+export const moveEvent = ({ start, end }: ISchedulerEvent, days: number): ISchedulerEventMove => {
+  const shift = (date: Date) => {
+    const shifted = new Date(date);
+    shifted.setDate(date.getDate() + days);
+    return shifted;
+  };
+  return { start: shift(start), end: shift(end) };
+};
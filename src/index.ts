@@ -2,13 +2,58 @@
 import "./index.css";
 
 // Export components
+export { default as DirectionProvider } from "./components/direction-provider";
+export { default as MessagesProvider } from "./components/messages-provider";
 export { default as Button } from "./features/button/components";
 export { default as Calendar } from "./features/calendar/components";
+export { default as DatePicker } from "./features/date-picker/components";
+export { default as DateTimePicker } from "./features/date-time-picker/components";
+export { default as Form } from "./features/form/components";
 export { default as Input } from "./features/input/components";
 export { default as Modal } from "./features/modal/components";
+export { default as Scheduler } from "./features/scheduler/components";
+
+// Export utilities
+export {
+  createLuxonAdapter,
+  createNativeAdapter,
+  createTemporalAdapter,
+} from "./features/calendar/core/adapters";
+export { CALENDAR_PRESETS } from "./features/calendar/core/constants";
+export { formatPlainDate, parsePlainDate } from "./features/calendar/core/utils";
+export { VALIDATION_LOCALES } from "./features/input/core/locales";
 
 // Export types
+export type { IDirectionProviderProps } from "./components/direction-provider";
+export type { IMessagesProviderProps } from "./components/messages-provider";
+export type { TDirection } from "./core/direction";
+export type { IStandardSchema, IStandardSchemaIssue } from "./core/schema";
 export type { IButtonProps } from "./features/button/core/types";
-export type { ICalendarProps } from "./features/calendar/core/types";
-export type { IInputProps } from "./features/input/core/types";
+export type {
+  ICalendarComponents,
+  ICalendarPreset,
+  ICalendarProps,
+  IDateAdapter,
+  TCalendarSystem,
+  TCalendarView,
+  TDateMatcher,
+} from "./features/calendar/core/types";
+export type { IDatePickerProps } from "./features/date-picker/core/types";
+export type { IDateTimePickerProps } from "./features/date-time-picker/core/types";
+export type { IFormProps, IFormState, TFormErrors, TFormValues } from "./features/form/core/types";
+export type {
+  IInputProps,
+  IValidationMessageParams,
+  TInputMask,
+  TRevalidationTrigger,
+  TValidationLocale,
+  TValidationMessage,
+  TValidationMessages,
+  TValidationTrigger,
+} from "./features/input/core/types";
 export type { IModalProps } from "./features/modal/core/types";
+export type {
+  ISchedulerEvent,
+  ISchedulerEventMove,
+  ISchedulerProps,
+} from "./features/scheduler/core/types";